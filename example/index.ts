@@ -8,7 +8,7 @@
 'use strict';
 
 import {
-  Menu, MenuBar, MenuItem
+  LongPressHandler, Menu, MenuBar, MenuItem
 } from '../lib/index';
 
 import './index.css';
@@ -278,6 +278,8 @@ function main() {
 
   menuBar.attach(document.getElementById('menubar-host'));
 
+  new LongPressHandler(document.body);
+
   document.addEventListener('contextmenu', (event: MouseEvent) => {
     event.preventDefault();
     let x = event.clientX;
@@ -10,6 +10,10 @@
 import * as arrays
   from 'phosphor-arrays';
 
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
 import {
   Widget
 } from 'phosphor-widget';
@@ -18,6 +22,83 @@ import {
   MenuItem
 } from './menuitem';
 
+import {
+  addItemMenu, itemText, removeItemMenu, uncheckRadioGroup
+} from './private';
+
+
+/**
+ * The default number of items in a page of a menu.
+ */
+const PAGE_SIZE = 10;
+
+/**
+ * The ms window for accumulating type-ahead characters.
+ */
+const TYPE_AHEAD_TIMEOUT = 1000;
+
+
+/**
+ * A type alias for the input which triggered a menu item.
+ *
+ * #### Notes
+ * A `'mouse'` trigger includes a touch or pen tap. A `'mnemonic'`
+ * trigger is a keyboard trigger of an item which was activated by
+ * its mnemonic.
+ */
+export
+type TriggerSource = 'mouse' | 'keyboard' | 'mnemonic' | 'shortcut';
+
+
+/**
+ * The arguments object for the `triggered` signal of a menu.
+ */
+export
+interface ITriggeredArgs {
+  /**
+   * The menu item which was triggered.
+   */
+  item: MenuItem;
+
+  /**
+   * The submenu items leading from the emitting menu to the item.
+   *
+   * This is empty when the item belongs to the emitting menu.
+   */
+  path: MenuItem[];
+
+  /**
+   * The input which triggered the item.
+   */
+  source: TriggerSource;
+}
+
+/**
+ * The arguments object for the `activeIndexChanged` signal of a menu.
+ */
+export
+interface IActiveIndexChangedArgs {
+  /**
+   * The old active index, or `-1` if there was no active item.
+   */
+  oldIndex: number;
+
+  /**
+   * The new active index, or `-1` if there is no active item.
+   */
+  newIndex: number;
+
+  /**
+   * The old active item, or `null` if there was no active item.
+   */
+  oldItem: MenuItem;
+
+  /**
+   * The new active item, or `null` if there is no active item.
+   */
+  newItem: MenuItem;
+}
+
 
 /**
  * An abstract base class for implementing menu widgets.
@@ -27,6 +108,16 @@ import {
  */
 export
 abstract class AbstractMenu extends Widget {
+  /**
+   * Dispose of the resources held by the menu.
+   */
+  dispose(): void {
+    for (let item of this._items) {
+      removeItemMenu(item, this);
+    }
+    super.dispose();
+  }
+
   /**
    * A method invoked to test whether an item is selectable.
    *
@@ -67,6 +158,32 @@ abstract class AbstractMenu extends Widget {
    */
   protected abstract onActiveIndexChanged(oldIndex: number, newIndex: number): void;
 
+  /**
+   * A signal emitted when the active index of the menu changes.
+   *
+   * #### Notes
+   * This is emitted after [[onActiveIndexChanged]] is called, and when
+   * changing the menu items clears the active index.
+   */
+  get activeIndexChanged(): ISignal<AbstractMenu, IActiveIndexChangedArgs> {
+    return AbstractMenuPrivate.activeIndexChangedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when a menu item is triggered.
+   *
+   * #### Notes
+   * The signal is emitted by the menu which owns the item, and then by
+   * each of its ancestor menus. It is emitted before the command or the
+   * handler of the item is invoked.
+   *
+   * Items invoked by a [[KeyBindingManager]] shortcut are reported by
+   * the menus registered with the manager, whether or not they are open.
+   */
+  get triggered(): ISignal<AbstractMenu, ITriggeredArgs> {
+    return AbstractMenuPrivate.triggeredSignal.bind(this);
+  }
+
   /**
    * Get the array of menu items for the menu.
    *
@@ -82,15 +199,42 @@ abstract class AbstractMenu extends Widget {
    *
    * #### Notes
    * This creates a shallow copy of the assigned menu items.
+   *
+   * When several checked `Radio` items share a group, only the last
+   * of them remains checked.
    */
   set items(value: MenuItem[]) {
     if (this._items === value) {
       return;
     }
+    let oldIndex = this._activeIndex;
     this._activeIndex = -1;
     let oldItems = this._items;
+    let released: MenuItem[] = [];
+    for (let item of oldItems) {
+      if (removeItemMenu(item, this)) {
+        released.push(item);
+      }
+    }
     this._items = Object.freeze(value.slice());
+    for (let item of this._items) {
+      addItemMenu(item, this);
+    }
+    for (let i = this._items.length - 1; i >= 0; --i) {
+      AbstractMenuPrivate.normalizeRadioItem(this._items[i]);
+    }
+    for (let item of released) {
+      AbstractMenuPrivate.normalizeRadioItem(item);
+    }
     this.onItemsChanged(oldItems, this._items);
+    if (oldIndex !== -1) {
+      this.activeIndexChanged.emit({
+        oldIndex: oldIndex,
+        newIndex: -1,
+        oldItem: oldItems[oldIndex],
+        newItem: null,
+      });
+    }
   }
 
   /**
@@ -124,6 +268,12 @@ abstract class AbstractMenu extends Widget {
     }
     this._activeIndex = newIndex;
     this.onActiveIndexChanged(oldIndex, newIndex);
+    this.activeIndexChanged.emit({
+      oldIndex: oldIndex,
+      newIndex: newIndex,
+      oldItem: this._items[oldIndex] || null,
+      newItem: this._items[newIndex] || null,
+    });
   }
 
   /**
@@ -179,6 +329,82 @@ abstract class AbstractMenu extends Widget {
     this.activeIndex = arrays.rfindIndex(this.items, pred, i, true);
   }
 
+  /**
+   * Activate the first selectable menu item.
+   *
+   * #### Notes
+   * If there is no selectable item, the active index is set to `-1`.
+   */
+  activateFirstItem(): void {
+    let pred = (item: MenuItem) => this.isSelectable(item);
+    this.activeIndex = arrays.findIndex(this.items, pred);
+  }
+
+  /**
+   * Activate the last selectable menu item.
+   *
+   * #### Notes
+   * If there is no selectable item, the active index is set to `-1`.
+   */
+  activateLastItem(): void {
+    let pred = (item: MenuItem) => this.isSelectable(item);
+    this.activeIndex = arrays.rfindIndex(this.items, pred);
+  }
+
+  /**
+   * Activate the selectable menu item one page after the active item.
+   *
+   * #### Notes
+   * The target is the last selectable item within one page of the
+   * active item. If there is none, the search continues forward to
+   * the next selectable item. The search does not wrap around.
+   *
+   * The number of items in a page is given by [[pageSize]].
+   */
+  activateNextPage(): void {
+    let n = this.items.length;
+    if (n === 0) {
+      return;
+    }
+    let k = this.activeIndex;
+    let pred = (item: MenuItem) => this.isSelectable(item);
+    let target = Math.min(n - 1, Math.max(0, k) + this.pageSize());
+    let i = arrays.rfindIndex(this.items, pred, target);
+    if (i <= k) {
+      i = arrays.findIndex(this.items, pred, target);
+    }
+    if (i !== -1) {
+      this.activeIndex = i;
+    }
+  }
+
+  /**
+   * Activate the selectable menu item one page before the active item.
+   *
+   * #### Notes
+   * The target is the first selectable item within one page of the
+   * active item. If there is none, the search continues backward to
+   * the previous selectable item. The search does not wrap around.
+   *
+   * The number of items in a page is given by [[pageSize]].
+   */
+  activatePreviousPage(): void {
+    let n = this.items.length;
+    if (n === 0) {
+      return;
+    }
+    let k = this.activeIndex === -1 ? n : this.activeIndex;
+    let pred = (item: MenuItem) => this.isSelectable(item);
+    let target = Math.max(0, Math.min(n - 1, k - this.pageSize()));
+    let i = arrays.findIndex(this.items, pred, target);
+    if (i === -1 || i >= k) {
+      i = arrays.rfindIndex(this.items, pred, target);
+    }
+    if (i !== -1) {
+      this.activeIndex = i;
+    }
+  }
+
   /**
    * Activate the next selectable menu item with the given mnemonic.
    *
@@ -196,7 +422,7 @@ abstract class AbstractMenu extends Widget {
       if (!this.isSelectable(item)) {
         return false;
       }
-      let match = item.text.match(/&\w/);
+      let match = itemText(item).match(/&\w/);
       if (!match) {
         return false;
       }
@@ -204,6 +430,103 @@ abstract class AbstractMenu extends Widget {
     }, i, true);
   }
 
+  /**
+   * Get the number of items in a page of the menu.
+   *
+   * @returns The number of items to move for a page navigation.
+   *
+   * #### Notes
+   * The default implementation returns `10`. A subclass may
+   * reimplement this method to compute the visible page size.
+   */
+  protected pageSize(): number {
+    return PAGE_SIZE;
+  }
+
+  /**
+   * Activate the next selectable menu item matching typed text.
+   *
+   * @param char - The character which was typed.
+   *
+   * #### Notes
+   * Characters typed in quick succession are accumulated into a
+   * buffer, and the first selectable item whose text starts with
+   * the buffer is activated. The match is case-insensitive, and the
+   * search starts with the active item so the match is retained as
+   * more characters are typed.
+   *
+   * Typing the same character repeatedly cycles through the items
+   * which start with that character.
+   *
+   * If no item text matches a single typed character, the search
+   * falls back to [[activateMnemonicItem]].
+   */
+  activateTypeAheadItem(char: string): void {
+    // Accumulate the character into the buffer.
+    let now = Date.now();
+    if (now - this._typeAheadTime > TYPE_AHEAD_TIMEOUT) {
+      this._typeAhead = '';
+    }
+    this._typeAheadTime = now;
+    this._typeAhead += char.toLowerCase();
+
+    // A repeated character cycles instead of extending the prefix.
+    let buffer = this._typeAhead;
+    let c = buffer[0];
+    let cycle = buffer.split('').every(ch => ch === c);
+    let prefix = cycle ? c : buffer;
+
+    // Search for the first item which starts with the prefix.
+    let n = this.items.length;
+    let k = this.activeIndex + (cycle ? 1 : 0);
+    let i = k >= n || k < 0 ? 0 : k;
+    let index = arrays.findIndex(this.items, item => {
+      if (!this.isSelectable(item)) {
+        return false;
+      }
+      return itemText(item).replace(/&/g, '').toLowerCase().indexOf(prefix) === 0;
+    }, i, true);
+
+    // Fall back to the mnemonic for a single character.
+    if (index !== -1) {
+      this.activeIndex = index;
+    } else if (buffer.length === 1) {
+      this.activateMnemonicItem(char);
+    }
+  }
+
+  private _typeAhead = '';
+  private _typeAheadTime = 0;
   private _activeIndex = -1;
   private _items: MenuItem[] = Object.freeze([]);
 }
+
+
+/**
+ * The namespace for the abstract menu private data.
+ */
+namespace AbstractMenuPrivate {
+  /**
+   * A signal emitted when the active index of a menu changes.
+   */
+  export
+  const activeIndexChangedSignal = new Signal<AbstractMenu, IActiveIndexChangedArgs>();
+
+  /**
+   * A signal emitted when a menu item is triggered.
+   */
+  export
+  const triggeredSignal = new Signal<AbstractMenu, ITriggeredArgs>();
+
+  /**
+   * Uncheck the other items in the radio group of a checked item.
+   *
+   * Items which are not checked `Radio` items in a group are ignored.
+   */
+  export
+  function normalizeRadioItem(item: MenuItem): void {
+    if (item.type === MenuItem.Radio && item.checked && item.group) {
+      uncheckRadioGroup(item);
+    }
+  }
+}
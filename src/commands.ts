@@ -0,0 +1,258 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+
+/**
+ * An options object for registering a command.
+ */
+export
+interface ICommandOptions {
+  /**
+   * The function which executes the command.
+   */
+  execute: () => void;
+
+  /**
+   * A function which tests whether the command is enabled.
+   *
+   * #### Notes
+   * If this is not provided, the command is always enabled.
+   */
+  isEnabled?: () => boolean;
+
+  /**
+   * A function which tests whether the command is checked.
+   *
+   * #### Notes
+   * If this is not provided, the command is never checked.
+   */
+  isChecked?: () => boolean;
+
+  /**
+   * The display label for the command.
+   */
+  label?: string;
+
+  /**
+   * The icon class for the command.
+   */
+  icon?: string;
+
+  /**
+   * The keyboard shortcut for the command.
+   */
+  shortcut?: string;
+}
+
+
+/**
+ * A registry which maps command ids to command implementations.
+ *
+ * #### Notes
+ * A command allows the same action to be shared by multiple menu
+ * items (and other widgets) without duplicating its state. Menu
+ * items which reference a command derive their enabled state,
+ * checked state, label, icon, and shortcut from the command when
+ * the item is displayed.
+ */
+export
+class CommandRegistry {
+  /**
+   * A signal emitted when a command is added, removed, or changed.
+   *
+   * #### Notes
+   * The signal argument is the id of the affected command.
+   */
+  get commandChanged(): ISignal<CommandRegistry, string> {
+    return CommandRegistryPrivate.commandChangedSignal.bind(this);
+  }
+
+  /**
+   * List the ids of the registered commands.
+   *
+   * @returns A new array of the registered command ids.
+   */
+  listCommands(): string[] {
+    return Object.keys(this._commands);
+  }
+
+  /**
+   * Test whether a command is registered.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @returns `true` if the command is registered, `false` otherwise.
+   */
+  hasCommand(id: string): boolean {
+    return id in this._commands;
+  }
+
+  /**
+   * Add a command to the registry.
+   *
+   * @param id - The unique id of the command.
+   *
+   * @param options - The options which implement the command.
+   *
+   * @throws An error if the command id is already registered.
+   */
+  addCommand(id: string, options: ICommandOptions): void {
+    if (id in this._commands) {
+      throw new Error(`Command '${id}' is already registered.`);
+    }
+    this._commands[id] = options;
+    this.commandChanged.emit(id);
+  }
+
+  /**
+   * Remove a command from the registry.
+   *
+   * @param id - The id of the command to remove.
+   *
+   * #### Notes
+   * This is a no-op if the command is not registered.
+   */
+  removeCommand(id: string): void {
+    if (!(id in this._commands)) {
+      return;
+    }
+    delete this._commands[id];
+    this.commandChanged.emit(id);
+  }
+
+  /**
+   * Notify the registry that the state of a command has changed.
+   *
+   * @param id - The id of the command which changed.
+   *
+   * #### Notes
+   * This should be called when the result of `isEnabled` or
+   * `isChecked` changes, so that any widget which displays the
+   * command state can be updated.
+   *
+   * An open menu or an attached menu bar which contains an item for
+   * the command is updated automatically.
+   */
+  notifyCommandChanged(id: string): void {
+    if (id in this._commands) {
+      this.commandChanged.emit(id);
+    }
+  }
+
+  /**
+   * Execute a registered command.
+   *
+   * @param id - The id of the command to execute.
+   *
+   * #### Notes
+   * This is a no-op if the command is not registered or disabled.
+   */
+  execute(id: string): void {
+    if (this.isEnabled(id)) {
+      this._commands[id].execute();
+    }
+  }
+
+  /**
+   * Test whether a registered command is enabled.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @returns `true` if the command is enabled, `false` otherwise.
+   *
+   * #### Notes
+   * An unregistered command is never enabled.
+   */
+  isEnabled(id: string): boolean {
+    let cmd = this._commands[id];
+    if (!cmd) {
+      return false;
+    }
+    return cmd.isEnabled ? cmd.isEnabled() : true;
+  }
+
+  /**
+   * Test whether a registered command is checked.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @returns `true` if the command is checked, `false` otherwise.
+   *
+   * #### Notes
+   * An unregistered command is never checked.
+   */
+  isChecked(id: string): boolean {
+    let cmd = this._commands[id];
+    if (!cmd) {
+      return false;
+    }
+    return cmd.isChecked ? cmd.isChecked() : false;
+  }
+
+  /**
+   * Get the display label for a registered command.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @returns The command label, or an empty string.
+   */
+  label(id: string): string {
+    let cmd = this._commands[id];
+    return (cmd && cmd.label) || '';
+  }
+
+  /**
+   * Get the icon class for a registered command.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @returns The command icon class, or an empty string.
+   */
+  icon(id: string): string {
+    let cmd = this._commands[id];
+    return (cmd && cmd.icon) || '';
+  }
+
+  /**
+   * Get the keyboard shortcut for a registered command.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @returns The command shortcut, or an empty string.
+   */
+  shortcut(id: string): string {
+    let cmd = this._commands[id];
+    return (cmd && cmd.shortcut) || '';
+  }
+
+  private _commands: { [id: string]: ICommandOptions } = Object.create(null);
+}
+
+
+/**
+ * The global command registry used by menu items.
+ */
+export
+const commands = new CommandRegistry();
+
+
+/**
+ * The namespace for the command registry private data.
+ */
+namespace CommandRegistryPrivate {
+  /**
+   * A signal emitted when a command is added, removed, or changed.
+   */
+  export
+  const commandChangedSignal = new Signal<CommandRegistry, string>();
+}
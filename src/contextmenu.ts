@@ -0,0 +1,534 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  IMenuOptions, Menu
+} from './menu';
+
+import {
+  MenuItem
+} from './menuitem';
+
+
+/**
+ * An options object for registering a context menu item.
+ */
+export
+interface IContextMenuItemOptions {
+  /**
+   * The CSS selector which the event target or an ancestor must match.
+   */
+  selector: string;
+
+  /**
+   * The menu item to show when the selector is matched.
+   */
+  item: MenuItem;
+
+  /**
+   * The rank of the item within the items for the same selector.
+   *
+   * Items with a lower rank are displayed first. The default is
+   * `Infinity`, which places the item after the ranked items.
+   */
+  rank?: number;
+}
+
+
+/**
+ * An object which shows a menu of selector-matched items on right click.
+ *
+ * #### Notes
+ * Items are registered against CSS selectors. When a `contextmenu`
+ * event occurs, the event target and its ancestors are tested against
+ * the registered selectors, and a menu of the matched items is popped
+ * up at the event location.
+ *
+ * The matched items are ordered by the distance of the matching node
+ * from the target, then by the specificity of the selector, then by
+ * rank, and then by registration order. The items for each selector
+ * form a group, and the groups are divided by separators. Groups with
+ * the same distance and specificity are ordered by selector.
+ *
+ * An item is only shown once. If it is registered for several matching
+ * selectors, it is shown for the first of them in the above order.
+ */
+export
+class ContextMenu {
+  /**
+   * Construct a new context menu.
+   *
+   * @param options - The options for initializing the popup menu.
+   */
+  constructor(options?: IMenuOptions) {
+    this._menu = new Menu([], options);
+  }
+
+  /**
+   * Dispose of the resources held by the context menu.
+   */
+  dispose(): void {
+    this._registrations.length = 0;
+    document.removeEventListener('contextmenu', this);
+    this._menu.dispose();
+  }
+
+  /**
+   * Get the popup menu used by the context menu.
+   *
+   * #### Notes
+   * The items of this menu are replaced each time it is opened.
+   *
+   * This is a read-only property.
+   */
+  get menu(): Menu {
+    return this._menu;
+  }
+
+  /**
+   * Add an item to the context menu.
+   *
+   * @param options - The options for registering the item.
+   *
+   * @throws An error if the selector is not a valid CSS selector.
+   *
+   * #### Notes
+   * The document `contextmenu` listener is installed when the first
+   * item is added.
+   */
+  addItem(options: IContextMenuItemOptions): void {
+    let selector = options.selector;
+    if (!ContextMenuPrivate.isValidSelector(selector)) {
+      throw new Error(`Invalid context menu selector: '${selector}'`);
+    }
+    let rank = options.rank !== void 0 ? options.rank : Infinity;
+    let specificity = ContextMenuPrivate.calculateSpecificity(selector);
+    let id = ContextMenuPrivate.nextId++;
+    this._registrations.push({
+      selector: selector,
+      specificity: specificity,
+      rank: rank,
+      id: id,
+      item: options.item,
+    });
+    if (this._registrations.length === 1) {
+      document.addEventListener('contextmenu', this);
+    }
+  }
+
+  /**
+   * Remove an item from the context menu.
+   *
+   * @param item - The menu item to remove.
+   *
+   * #### Notes
+   * Every registration of the item is removed. The document listener
+   * is removed when the last item is removed.
+   */
+  removeItem(item: MenuItem): void {
+    let registrations = this._registrations;
+    for (let i = registrations.length - 1; i >= 0; --i) {
+      if (registrations[i].item === item) {
+        registrations.splice(i, 1);
+      }
+    }
+    if (registrations.length === 0) {
+      document.removeEventListener('contextmenu', this);
+    }
+  }
+
+  /**
+   * Open the context menu for a mouse event.
+   *
+   * @param event - The event which determines the target and location.
+   *
+   * @returns `true` if the menu was opened, `false` if no items match.
+   *
+   * #### Notes
+   * This is called automatically for document `contextmenu` events,
+   * but may be called directly to open the menu for other events.
+   */
+  open(event: MouseEvent): boolean {
+    let regs = this._registrations;
+    let target = event.target as Element;
+    let items = ContextMenuPrivate.matchItems(regs, target);
+    if (items.length === 0) {
+      return false;
+    }
+    this._menu.items = items;
+    this._menu.popup(event.clientX, event.clientY);
+    return true;
+  }
+
+  /**
+   * Handle the DOM events for the context menu.
+   *
+   * @param event - The DOM event sent to the context menu.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the document. It should not be
+   * called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'contextmenu') {
+      this._evtContextMenu(event as MouseEvent);
+    }
+  }
+
+  /**
+   * Handle the `'contextmenu'` event for the context menu.
+   *
+   * The native context menu is shown if no items match the target.
+   */
+  private _evtContextMenu(event: MouseEvent): void {
+    if (this.open(event)) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  }
+
+  private _menu: Menu;
+  private _registrations: ContextMenuPrivate.IRegistration[] = [];
+}
+
+
+/**
+ * The namespace for the context menu private data.
+ */
+namespace ContextMenuPrivate {
+  /**
+   * The id to assign to the next item registration.
+   */
+  export
+  let nextId = 0;
+
+  /**
+   * A registration of a context menu item.
+   */
+  export
+  interface IRegistration {
+    /**
+     * The selector for the item.
+     */
+    selector: string;
+
+    /**
+     * The specificity of the selector.
+     */
+    specificity: number;
+
+    /**
+     * The rank of the item.
+     */
+    rank: number;
+
+    /**
+     * The registration order of the item.
+     */
+    id: number;
+
+    /**
+     * The registered menu item.
+     */
+    item: MenuItem;
+  }
+
+  /**
+   * A registration which was matched by a node.
+   */
+  interface IMatch {
+    /**
+     * The matched registration.
+     */
+    registration: IRegistration;
+
+    /**
+     * The distance of the matching node from the target.
+     */
+    depth: number;
+  }
+
+  /**
+   * Test whether a string is a valid CSS selector.
+   */
+  export
+  function isValidSelector(selector: string): boolean {
+    try {
+      document.createDocumentFragment().querySelector(selector);
+    } catch (err) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Calculate the specificity of a CSS selector.
+   *
+   * #### Notes
+   * The result encodes the id, class, and type counts as a single
+   * number which can be compared directly. For a selector list, the
+   * specificity of the most specific selector is used.
+   *
+   * The `:not()`, `:is()`, `:matches()` and `:has()` pseudo-classes
+   * take the specificity of their most specific argument, and the
+   * `:where()` pseudo-class has no specificity. The other functional
+   * pseudo-classes, such as `:nth-child()`, count as one pseudo-class.
+   */
+  export
+  function calculateSpecificity(selector: string): number {
+    return packSpecificity(maxSpecificity(selector));
+  }
+
+  /**
+   * Create the menu items for the registrations matched by a target.
+   */
+  export
+  function matchItems(registrations: IRegistration[], target: Element): MenuItem[] {
+    // Collect each registration at its nearest matching node.
+    let matches: IMatch[] = [];
+    let remaining = registrations.slice();
+    let depth = 0;
+    for (let node = target; node && remaining.length > 0; node = node.parentElement) {
+      for (let i = remaining.length - 1; i >= 0; --i) {
+        if (matchesSelector(node, remaining[i].selector)) {
+          matches.push({ registration: remaining[i], depth: depth });
+          remaining.splice(i, 1);
+        }
+      }
+      ++depth;
+    }
+
+    // Sort the matches into display order.
+    matches.sort(compareMatches);
+
+    // Create the menu items, with separators between the groups. An
+    // item registered for several matching selectors is shown once.
+    let items: MenuItem[] = [];
+    let selector: string = null;
+    for (let match of matches) {
+      let reg = match.registration;
+      if (items.indexOf(reg.item) !== -1) {
+        continue;
+      }
+      if (selector !== null && reg.selector !== selector) {
+        items.push(new MenuItem({ type: MenuItem.Separator }));
+      }
+      selector = reg.selector;
+      items.push(reg.item);
+    }
+    return items;
+  }
+
+  /**
+   * The pseudo-classes which take the specificity of their argument.
+   */
+  const SELECTOR_PSEUDO_CLASSES = ['not', 'is', 'matches', 'has'];
+
+  /**
+   * The pseudo-elements which may be written with a single colon.
+   */
+  const LEGACY_PSEUDO_ELEMENTS = ['before', 'after', 'first-line', 'first-letter'];
+
+  /**
+   * A regex which matches a character of a CSS identifier.
+   */
+  const NAME_CHAR_RE = /[\w\-\u00A0-\uFFFF]/;
+
+  /**
+   * Pack the id, class, and type counts of a specificity.
+   */
+  function packSpecificity(counts: number[]): number {
+    let a = Math.min(counts[0], 255);
+    let b = Math.min(counts[1], 255);
+    let c = Math.min(counts[2], 255);
+    return (a << 16) | (b << 8) | c;
+  }
+
+  /**
+   * Compute the counts of the most specific selector in a list.
+   */
+  function maxSpecificity(selector: string): number[] {
+    let result = [0, 0, 0];
+    for (let part of splitSelectorList(selector)) {
+      let counts = specificityOf(part);
+      if (packSpecificity(counts) > packSpecificity(result)) {
+        result = counts;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Split a selector list at its top level commas.
+   */
+  function splitSelectorList(selector: string): string[] {
+    let parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0, n = selector.length; i < n; ++i) {
+      let ch = selector[i];
+      if (ch === '\\') {
+        ++i;
+      } else if (ch === '"' || ch === "'") {
+        i = skipString(selector, i) - 1;
+      } else if (ch === '(' || ch === '[') {
+        ++depth;
+      } else if (ch === ')' || ch === ']') {
+        --depth;
+      } else if (ch === ',' && depth === 0) {
+        parts.push(selector.slice(start, i));
+        start = i + 1;
+      }
+    }
+    parts.push(selector.slice(start));
+    return parts;
+  }
+
+  /**
+   * Compute the id, class, and type counts of a single selector.
+   */
+  function specificityOf(selector: string): number[] {
+    let counts = [0, 0, 0];
+    let i = 0;
+    let n = selector.length;
+    while (i < n) {
+      let ch = selector[i];
+      if (ch === '#') {
+        counts[0]++;
+        i = skipName(selector, i + 1);
+      } else if (ch === '.') {
+        counts[1]++;
+        i = skipName(selector, i + 1);
+      } else if (ch === '[') {
+        counts[1]++;
+        i = skipBlock(selector, i);
+      } else if (ch === ':') {
+        let element = selector[i + 1] === ':';
+        let start = element ? i + 2 : i + 1;
+        let end = skipName(selector, start);
+        let name = selector.slice(start, end).toLowerCase();
+        i = selector[end] === '(' ? skipBlock(selector, end) : end;
+        if (element || LEGACY_PSEUDO_ELEMENTS.indexOf(name) !== -1) {
+          counts[2]++;
+        } else if (SELECTOR_PSEUDO_CLASSES.indexOf(name) !== -1) {
+          let inner = maxSpecificity(selector.slice(end + 1, i - 1));
+          counts[0] += inner[0];
+          counts[1] += inner[1];
+          counts[2] += inner[2];
+        } else if (name !== 'where') {
+          counts[1]++;
+        }
+      } else if (ch === '\\' || NAME_CHAR_RE.test(ch)) {
+        counts[2]++;
+        i = skipName(selector, i);
+      } else {
+        ++i;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Find the end of the CSS identifier which starts at an index.
+   */
+  function skipName(selector: string, i: number): number {
+    let n = selector.length;
+    while (i < n) {
+      if (selector[i] === '\\') {
+        i += 2;
+      } else if (NAME_CHAR_RE.test(selector[i])) {
+        ++i;
+      } else {
+        break;
+      }
+    }
+    return Math.min(i, n);
+  }
+
+  /**
+   * Find the end of the bracketed block which starts at an index.
+   *
+   * The result is the index after the closing bracket.
+   */
+  function skipBlock(selector: string, i: number): number {
+    let depth = 0;
+    let n = selector.length;
+    while (i < n) {
+      let ch = selector[i];
+      if (ch === '\\') {
+        i += 2;
+        continue;
+      }
+      if (ch === '"' || ch === "'") {
+        i = skipString(selector, i);
+        continue;
+      }
+      if (ch === '(' || ch === '[') {
+        ++depth;
+      } else if ((ch === ')' || ch === ']') && --depth === 0) {
+        return i + 1;
+      }
+      ++i;
+    }
+    return n;
+  }
+
+  /**
+   * Find the end of the quoted string which starts at an index.
+   *
+   * The result is the index after the closing quote.
+   */
+  function skipString(selector: string, i: number): number {
+    let quote = selector[i];
+    let n = selector.length;
+    for (++i; i < n; ++i) {
+      if (selector[i] === '\\') {
+        ++i;
+      } else if (selector[i] === quote) {
+        return i + 1;
+      }
+    }
+    return n;
+  }
+
+  /**
+   * Test whether an element matches a CSS selector.
+   */
+  function matchesSelector(elem: Element, selector: string): boolean {
+    if (elem.matches) {
+      return elem.matches(selector);
+    }
+    if (elem.msMatchesSelector) {
+      return elem.msMatchesSelector(selector);
+    }
+    return elem.webkitMatchesSelector(selector);
+  }
+
+  /**
+   * A sort comparison function for matched registrations.
+   */
+  function compareMatches(a: IMatch, b: IMatch): number {
+    if (a.depth !== b.depth) {
+      return a.depth - b.depth;
+    }
+    let r1 = a.registration;
+    let r2 = b.registration;
+    if (r1.specificity !== r2.specificity) {
+      return r2.specificity - r1.specificity;
+    }
+    if (r1.selector !== r2.selector) {
+      return r1.selector < r2.selector ? -1 : 1;
+    }
+    if (r1.rank !== r2.rank) {
+      return r1.rank < r2.rank ? -1 : 1;
+    }
+    return r1.id - r2.id;
+  }
+}
@@ -8,8 +8,12 @@
 'use strict';
 
 export * from './base';
+export * from './commands';
+export * from './contextmenu';
+export * from './keybindings';
 export * from './menu';
 export * from './menubar';
 export * from './menuitem';
+export * from './touch';
 
 import './index.css';
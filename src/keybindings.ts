@@ -0,0 +1,800 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import * as arrays
+  from 'phosphor-arrays';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+import {
+  AbstractMenu, ITriggeredArgs
+} from './base';
+
+import {
+  commands
+} from './commands';
+
+import {
+  MenuItem
+} from './menuitem';
+
+import {
+  isItemEnabled, itemShortcut
+} from './private';
+
+
+/**
+ * An enum of the platforms which affect keyboard shortcuts.
+ */
+export
+enum Platform {
+  /**
+   * The macOS platform.
+   */
+  Mac,
+
+  /**
+   * The Windows platform.
+   */
+  Windows,
+
+  /**
+   * The Linux platform, and any other unknown platform.
+   */
+  Linux,
+}
+
+
+/**
+ * Get the current keyboard platform.
+ *
+ * @returns The platform used to resolve and format shortcuts.
+ *
+ * #### Notes
+ * The default platform is detected from `navigator.platform`.
+ */
+export
+function getPlatform(): Platform {
+  if (KeyBindingPrivate.platform === null) {
+    KeyBindingPrivate.platform = KeyBindingPrivate.detectPlatform();
+  }
+  return KeyBindingPrivate.platform;
+}
+
+
+/**
+ * Set the current keyboard platform.
+ *
+ * @param platform - The platform used to resolve and format shortcuts.
+ *
+ * #### Notes
+ * This overrides the detected platform. It is primarily useful for
+ * testing the behavior of other platforms.
+ */
+export
+function setPlatform(platform: Platform): void {
+  KeyBindingPrivate.platform = platform;
+}
+
+
+/**
+ * Normalize a keystroke string into its canonical form.
+ *
+ * @param keystroke - The keystroke to normalize, e.g. `'shift+ctrl+s'`.
+ *
+ * @param platform - The platform for resolving the `Accel` modifier.
+ *   The default is the current platform.
+ *
+ * @returns The canonical keystroke, e.g. `'Ctrl+Shift+S'`, or an
+ *   empty string if the keystroke is not valid.
+ *
+ * #### Notes
+ * The canonical form orders the modifiers as `Ctrl`, `Alt`, `Shift`,
+ * `Cmd`, followed by the key name. Modifier and key names are case
+ * insensitive.
+ *
+ * The portable `Accel` modifier resolves to `Cmd` on the Mac and to
+ * `Ctrl` on other platforms.
+ */
+export
+function normalizeKeystroke(keystroke: string, platform = getPlatform()): string {
+  let parts = KeyBindingPrivate.splitKeystroke(keystroke);
+  if (parts.length === 0) {
+    return '';
+  }
+  let ctrl = false;
+  let alt = false;
+  let shift = false;
+  let cmd = false;
+  let key = '';
+  for (let i = 0, n = parts.length; i < n; ++i) {
+    let part = parts[i];
+    let name = part.toLowerCase();
+    if (i < n - 1) {
+      if (name === 'ctrl' || name === 'control') {
+        ctrl = true;
+      } else if (name === 'alt' || name === 'option') {
+        alt = true;
+      } else if (name === 'shift') {
+        shift = true;
+      } else if (name === 'cmd' || name === 'command' || name === 'meta') {
+        cmd = true;
+      } else if (name === 'accel') {
+        if (platform === Platform.Mac) {
+          cmd = true;
+        } else {
+          ctrl = true;
+        }
+      } else {
+        return '';
+      }
+    } else {
+      key = KeyBindingPrivate.normalizeKey(part);
+    }
+  }
+  if (!key) {
+    return '';
+  }
+  return KeyBindingPrivate.formatKeystroke(ctrl, alt, shift, cmd, key);
+}
+
+
+/**
+ * Get the canonical keystroke for a `'keydown'` event.
+ *
+ * @param event - The keyboard event of interest.
+ *
+ * @returns The canonical keystroke for the event, or an empty string
+ *   if the event does not represent a bindable key.
+ */
+export
+function keystrokeForKeydownEvent(event: KeyboardEvent): string {
+  let key = KeyBindingPrivate.keyForKeyCode(event.keyCode);
+  if (!key) {
+    return '';
+  }
+  let ctrl = event.ctrlKey;
+  let alt = event.altKey;
+  let shift = event.shiftKey;
+  let cmd = event.metaKey;
+  return KeyBindingPrivate.formatKeystroke(ctrl, alt, shift, cmd, key);
+}
+
+
+/**
+ * Normalize a shortcut string into its canonical form.
+ *
+ * @param shortcut - The shortcut to normalize, e.g. `'ctrl+k ctrl+s'`.
+ *
+ * @param platform - The platform for resolving the `Accel` modifier.
+ *   The default is the current platform.
+ *
+ * @returns The canonical shortcut, e.g. `'Ctrl+K Ctrl+S'`, or an
+ *   empty string if any keystroke in the shortcut is not valid.
+ *
+ * #### Notes
+ * A shortcut is a sequence of one or more keystrokes separated by
+ * whitespace. A shortcut with multiple keystrokes is a chord.
+ */
+export
+function normalizeShortcut(shortcut: string, platform = getPlatform()): string {
+  let parts = shortcut.trim().split(/\s+/);
+  let result: string[] = [];
+  for (let part of parts) {
+    let keystroke = normalizeKeystroke(part, platform);
+    if (!keystroke) {
+      return '';
+    }
+    result.push(keystroke);
+  }
+  return result.join(' ');
+}
+
+
+/**
+ * Format a shortcut string for display.
+ *
+ * @param shortcut - The shortcut to format.
+ *
+ * @param platform - The platform for the display conventions.
+ *   The default is the current platform.
+ *
+ * @returns The display text for the shortcut.
+ *
+ * #### Notes
+ * On the Mac, the modifiers are displayed as glyphs such as `⇧⌘S`,
+ * and the keystrokes of a chord are separated by a space. On other
+ * platforms, the keystrokes are displayed as `Ctrl+Shift+S`, and
+ * the keystrokes of a chord are separated by a comma.
+ *
+ * A shortcut which cannot be normalized is returned unmodified.
+ */
+export
+function formatShortcut(shortcut: string, platform = getPlatform()): string {
+  let normal = normalizeShortcut(shortcut, platform);
+  if (!normal) {
+    return shortcut;
+  }
+  let keystrokes = normal.split(' ');
+  if (platform !== Platform.Mac) {
+    return keystrokes.join(', ');
+  }
+  return keystrokes.map(KeyBindingPrivate.formatMacKeystroke).join(' ');
+}
+
+
+/**
+ * An options object for initializing a key binding manager.
+ */
+export
+interface IKeyBindingManagerOptions {
+  /**
+   * The ms timeout for completing a pending chord.
+   *
+   * The default is `1000`.
+   */
+  chordTimeout?: number;
+}
+
+
+/**
+ * An object which invokes menu items in response to their shortcuts.
+ *
+ * #### Notes
+ * The manager searches the items of its menus, including the items
+ * of any submenus, for an item whose shortcut matches a `'keydown'`
+ * event on the document. The matching item's command or handler is
+ * invoked, even when no menu is open.
+ *
+ * Disabled items, and the items of disabled submenus, are ignored.
+ *
+ * When a keystroke matches the start of a chord, the manager enters
+ * a pending state and waits for the next keystroke. If the chord is
+ * not completed before the timeout, the pending state is cleared.
+ *
+ * The shortcuts are resolved for the current platform, which is also
+ * used to display them. Use [[setPlatform]] to change the platform.
+ */
+export
+class KeyBindingManager {
+  /**
+   * Construct a new key binding manager.
+   *
+   * @param options - The initialization options for the manager.
+   */
+  constructor(options?: IKeyBindingManagerOptions) {
+    if (options && options.chordTimeout !== void 0) {
+      this._chordTimeout = options.chordTimeout;
+    }
+  }
+
+  /**
+   * Dispose of the resources held by the manager.
+   */
+  dispose(): void {
+    this._clearPendingChord();
+    this._menus.length = 0;
+    document.removeEventListener('keydown', this);
+  }
+
+  /**
+   * A signal emitted when the pending chord changes.
+   *
+   * #### Notes
+   * The signal argument is the array of keystrokes pressed so far.
+   * An empty array indicates the pending chord was completed, was
+   * canceled, or timed out.
+   */
+  get pendingChordChanged(): ISignal<KeyBindingManager, string[]> {
+    return KeyBindingPrivate.pendingChordChangedSignal.bind(this);
+  }
+
+  /**
+   * Get the keystrokes of the pending chord.
+   *
+   * #### Notes
+   * This will be an empty array if there is no pending chord.
+   *
+   * This is a read-only property.
+   */
+  get pendingChord(): string[] {
+    return this._pending.slice();
+  }
+
+  /**
+   * Get a shallow copy of the menus managed by the manager.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get menus(): AbstractMenu[] {
+    return this._menus.slice();
+  }
+
+  /**
+   * Add a menu to the manager.
+   *
+   * @param menu - The menu or menu bar whose item shortcuts should
+   *   be bound.
+   *
+   * #### Notes
+   * If the menu is already added, this is a no-op.
+   *
+   * The document listener is installed when the first menu is added.
+   */
+  addMenu(menu: AbstractMenu): void {
+    if (this._menus.indexOf(menu) !== -1) {
+      return;
+    }
+    this._menus.push(menu);
+    if (this._menus.length === 1) {
+      document.addEventListener('keydown', this);
+    }
+  }
+
+  /**
+   * Remove a menu from the manager.
+   *
+   * @param menu - The menu to remove from the manager.
+   *
+   * #### Notes
+   * If the menu is not contained in the manager, this is a no-op.
+   *
+   * The document listener is removed when the last menu is removed.
+   */
+  removeMenu(menu: AbstractMenu): void {
+    if (arrays.remove(this._menus, menu) === -1) {
+      return;
+    }
+    if (this._menus.length === 0) {
+      this._clearPendingChord();
+      document.removeEventListener('keydown', this);
+    }
+  }
+
+  /**
+   * Find the enabled item which is bound to a shortcut.
+   *
+   * @param shortcut - The shortcut of interest.
+   *
+   * @returns The first enabled item bound to the shortcut, or `null`.
+   */
+  findItem(shortcut: string): MenuItem {
+    let platform = getPlatform();
+    let target = normalizeShortcut(shortcut, platform);
+    if (!target) {
+      return null;
+    }
+    return KeyBindingPrivate.matchMenus(this._menus, target, platform).exact;
+  }
+
+  /**
+   * Handle the DOM events for the manager.
+   *
+   * @param event - The DOM event sent to the manager.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the document. It should not be
+   * called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'keydown') {
+      this._evtKeyDown(event as KeyboardEvent);
+    }
+  }
+
+  /**
+   * Handle the `'keydown'` event for the manager.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    // Ignore the lone modifier keys so they do not break a chord.
+    let keystroke = keystrokeForKeydownEvent(event);
+    if (!keystroke) {
+      return;
+    }
+
+    // Match the pending chord extended by the new keystroke.
+    let hadPending = this._pending.length > 0;
+    let sequence = this._pending.concat(keystroke);
+    let platform = getPlatform();
+    let match = KeyBindingPrivate.matchMenus(this._menus, sequence.join(' '), platform);
+
+    // If an item matches exactly, it is invoked immediately.
+    if (match.exact) {
+      event.preventDefault();
+      event.stopPropagation();
+      this._clearPendingChord();
+      KeyBindingPrivate.emitTriggered(match);
+      KeyBindingPrivate.invokeItem(match.exact);
+      return;
+    }
+
+    // If the sequence starts a chord, wait for the next keystroke.
+    if (match.partial) {
+      event.preventDefault();
+      event.stopPropagation();
+      this._setPendingChord(sequence);
+      return;
+    }
+
+    // Otherwise, the keystroke cancels any pending chord. The key
+    // is consumed so it does not leak into the focused element.
+    if (hadPending) {
+      event.preventDefault();
+      event.stopPropagation();
+      this._clearPendingChord();
+    }
+  }
+
+  /**
+   * Set the pending chord and restart the chord timer.
+   */
+  private _setPendingChord(keystrokes: string[]): void {
+    clearTimeout(this._timerId);
+    this._pending = keystrokes;
+    this._timerId = setTimeout(() => {
+      this._timerId = 0;
+      this._clearPendingChord();
+    }, this._chordTimeout);
+    this.pendingChordChanged.emit(keystrokes.slice());
+  }
+
+  /**
+   * Clear the pending chord and cancel the chord timer.
+   *
+   * This is a no-op if there is no pending chord.
+   */
+  private _clearPendingChord(): void {
+    if (this._pending.length === 0) {
+      return;
+    }
+    clearTimeout(this._timerId);
+    this._timerId = 0;
+    this._pending = [];
+    this.pendingChordChanged.emit([]);
+  }
+
+  private _timerId = 0;
+  private _chordTimeout = 1000;
+  private _pending: string[] = [];
+  private _menus: AbstractMenu[] = [];
+}
+
+
+/**
+ * The namespace for the key binding private data.
+ */
+namespace KeyBindingPrivate {
+  /**
+   * The current keyboard platform, or `null` if not yet detected.
+   */
+  export
+  let platform: Platform = null;
+
+  /**
+   * A signal emitted when the pending chord changes.
+   */
+  export
+  const pendingChordChangedSignal = new Signal<KeyBindingManager, string[]>();
+
+  /**
+   * The result of matching a shortcut against a set of items.
+   */
+  export
+  interface IMatchResult {
+    /**
+     * The first enabled item whose shortcut matches exactly.
+     */
+    exact: MenuItem;
+
+    /**
+     * Whether an enabled item has a chord which starts with the
+     * matched shortcut.
+     */
+    partial: boolean;
+
+    /**
+     * The registered menu which contains the exact match.
+     */
+    menu: AbstractMenu;
+
+    /**
+     * The submenu items leading from the menu to the exact match.
+     */
+    path: MenuItem[];
+  }
+
+  /**
+   * A mapping of key code to canonical key name.
+   *
+   * Firefox uses the key codes `59`, `61`, and `173` for the `;`, `=`,
+   * and `-` keys, which other browsers report as `186`, `187`, and `189`.
+   */
+  const keyCodeMap: { [keyCode: number]: string } = {
+    8: 'Backspace',
+    9: 'Tab',
+    13: 'Enter',
+    27: 'Escape',
+    32: 'Space',
+    33: 'PageUp',
+    34: 'PageDown',
+    35: 'End',
+    36: 'Home',
+    37: 'Left',
+    38: 'Up',
+    39: 'Right',
+    40: 'Down',
+    45: 'Insert',
+    46: 'Delete',
+    59: ';',
+    61: '=',
+    173: '-',
+    186: ';',
+    187: '=',
+    188: ',',
+    189: '-',
+    190: '.',
+    191: '/',
+    192: '`',
+    219: '[',
+    220: '\\',
+    221: ']',
+    222: '\'',
+  };
+
+  /**
+   * A mapping of lower case key name aliases to canonical key name.
+   */
+  const keyNameMap: { [name: string]: string } = {
+    'backspace': 'Backspace',
+    'tab': 'Tab',
+    'enter': 'Enter',
+    'return': 'Enter',
+    'escape': 'Escape',
+    'esc': 'Escape',
+    'space': 'Space',
+    'pageup': 'PageUp',
+    'pagedown': 'PageDown',
+    'end': 'End',
+    'home': 'Home',
+    'left': 'Left',
+    'arrowleft': 'Left',
+    'up': 'Up',
+    'arrowup': 'Up',
+    'right': 'Right',
+    'arrowright': 'Right',
+    'down': 'Down',
+    'arrowdown': 'Down',
+    'insert': 'Insert',
+    'ins': 'Insert',
+    'delete': 'Delete',
+    'del': 'Delete',
+  };
+
+  /**
+   * A mapping of canonical modifier name to Mac display glyph.
+   */
+  const macModifierMap: { [name: string]: string } = {
+    'Ctrl': '\u2303',
+    'Alt': '\u2325',
+    'Shift': '\u21E7',
+    'Cmd': '\u2318',
+  };
+
+  /**
+   * A mapping of canonical key name to Mac display glyph.
+   */
+  const macKeyMap: { [name: string]: string } = {
+    'Backspace': '\u232B',
+    'Tab': '\u21E5',
+    'Enter': '\u21A9',
+    'Escape': '\u238B',
+    'Space': '\u2423',
+    'PageUp': '\u21DE',
+    'PageDown': '\u21DF',
+    'End': '\u2198',
+    'Home': '\u2196',
+    'Left': '\u2190',
+    'Up': '\u2191',
+    'Right': '\u2192',
+    'Down': '\u2193',
+    'Delete': '\u2326',
+  };
+
+  /**
+   * Detect the keyboard platform from the browser navigator.
+   */
+  export
+  function detectPlatform(): Platform {
+    let name = typeof navigator !== 'undefined' ? navigator.platform : '';
+    if (/Mac|iPhone|iPad|iPod/.test(name)) {
+      return Platform.Mac;
+    }
+    if (/Win/.test(name)) {
+      return Platform.Windows;
+    }
+    return Platform.Linux;
+  }
+
+  /**
+   * Format a canonical keystroke using the Mac display glyphs.
+   */
+  export
+  function formatMacKeystroke(keystroke: string): string {
+    let parts = splitKeystroke(keystroke);
+    let key = parts.pop();
+    let mods = parts.map(name => macModifierMap[name]);
+    return mods.join('') + (macKeyMap[key] || key);
+  }
+
+  /**
+   * Split a keystroke string into its `+` separated parts.
+   *
+   * A trailing `+` is treated as the key, e.g. `'Ctrl++'`.
+   */
+  export
+  function splitKeystroke(keystroke: string): string[] {
+    let text = keystroke.replace(/\s+/g, '');
+    if (!text) {
+      return [];
+    }
+    let plus = /\+\+$/.test(text) || text === '+';
+    if (plus) {
+      text = text.slice(0, -1);
+    }
+    let parts = text ? text.split('+') : [];
+    if (plus) {
+      parts[Math.max(0, parts.length - 1)] = '+';
+    }
+    return parts;
+  }
+
+  /**
+   * Normalize a key name into its canonical form.
+   *
+   * Returns an empty string if the key name is not valid.
+   */
+  export
+  function normalizeKey(name: string): string {
+    if (name.length === 1) {
+      return name.toUpperCase();
+    }
+    let lower = name.toLowerCase();
+    if (lower in keyNameMap) {
+      return keyNameMap[lower];
+    }
+    if (/^f([1-9]|1[0-2])$/.test(lower)) {
+      return lower.toUpperCase();
+    }
+    return '';
+  }
+
+  /**
+   * Get the canonical key name for a key code.
+   *
+   * Returns an empty string if the key code is not bindable.
+   */
+  export
+  function keyForKeyCode(keyCode: number): string {
+    if (keyCode >= 48 && keyCode <= 57) {
+      return String.fromCharCode(keyCode);
+    }
+    if (keyCode >= 65 && keyCode <= 90) {
+      return String.fromCharCode(keyCode);
+    }
+    if (keyCode >= 112 && keyCode <= 123) {
+      return 'F' + (keyCode - 111);
+    }
+    return keyCodeMap[keyCode] || '';
+  }
+
+  /**
+   * Format the parts of a keystroke into its canonical form.
+   */
+  export
+  function formatKeystroke(
+    ctrl: boolean, alt: boolean, shift: boolean, cmd: boolean, key: string
+  ): string {
+    let result = '';
+    if (ctrl) result += 'Ctrl+';
+    if (alt) result += 'Alt+';
+    if (shift) result += 'Shift+';
+    if (cmd) result += 'Cmd+';
+    return result + key;
+  }
+
+  /**
+   * Match a canonical shortcut against the items of the given menus.
+   */
+  export
+  function matchMenus(menus: AbstractMenu[], shortcut: string, platform: Platform): IMatchResult {
+    let result: IMatchResult = { exact: null, partial: false, menu: null, path: [] };
+    for (let menu of menus) {
+      matchItems(menu.items, shortcut, platform, result);
+      if (result.exact) {
+        result.menu = menu;
+        break;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Emit the `triggered` signal for the exact match of a shortcut.
+   *
+   * The signal is emitted by each menu along the path to the item,
+   * starting with the menu which owns the item.
+   */
+  export
+  function emitTriggered(match: IMatchResult): void {
+    let menus = [match.menu];
+    for (let item of match.path) {
+      menus.push(item.submenu);
+    }
+    for (let i = menus.length - 1; i >= 0; --i) {
+      let args: ITriggeredArgs = {
+        item: match.exact,
+        path: match.path.slice(i),
+        source: 'shortcut',
+      };
+      menus[i].triggered.emit(args);
+    }
+  }
+
+  /**
+   * Invoke the command or handler of a menu item.
+   */
+  export
+  function invokeItem(item: MenuItem): void {
+    if (item.command) {
+      commands.execute(item.command);
+    } else if (item.handler) {
+      item.handler(item);
+    }
+  }
+
+  /**
+   * Match a canonical shortcut against an array of items.
+   *
+   * The submenus of enabled submenu items are searched recursively.
+   */
+  function matchItems(
+    items: MenuItem[], shortcut: string, platform: Platform, result: IMatchResult
+  ): void {
+    let prefix = shortcut + ' ';
+    for (let item of items) {
+      if (item.disabled || item.type === MenuItem.Separator) {
+        continue;
+      }
+      if (item.type === MenuItem.Submenu) {
+        if (item.submenu) {
+          result.path.push(item);
+          matchItems(item.submenu.items, shortcut, platform, result);
+          if (result.exact) return;
+          result.path.pop();
+        }
+        continue;
+      }
+      if (!isItemEnabled(item)) {
+        continue;
+      }
+      let normal = normalizeShortcut(itemShortcut(item), platform);
+      if (normal === shortcut) {
+        result.exact = item;
+        return;
+      }
+      if (normal.indexOf(prefix) === 0) {
+        result.partial = true;
+      }
+    }
+  }
+}
@@ -18,6 +18,10 @@ import {
   Message, sendMessage
 } from 'phosphor-messaging';
 
+import {
+  Property
+} from 'phosphor-properties';
+
 import {
   ISignal, Signal
 } from 'phosphor-signaling';
@@ -27,13 +31,29 @@ import {
 } from 'phosphor-widget';
 
 import {
-  AbstractMenu
+  AbstractMenu, TriggerSource
 } from './base';
 
+import {
+  CommandRegistry, commands
+} from './commands';
+
+import {
+  formatShortcut
+} from './keybindings';
+
 import {
   MenuItem
 } from './menuitem';
 
+import {
+  isItemEnabled, itemIcon, itemShortcut, itemText
+} from './private';
+
+import {
+  isKeyboardInput, isTouchEvent, isTouchInput, trackPointerInput
+} from './touch';
+
 
 /**
  * The class name added to Menu instances.
@@ -45,6 +65,21 @@ const MENU_CLASS = 'p-Menu';
  */
 const CONTENT_CLASS = 'p-Menu-content';
 
+/**
+ * The class name added to a menu scroll button node.
+ */
+const SCROLL_BUTTON_CLASS = 'p-Menu-scrollButton';
+
+/**
+ * The class name added to a menu scroll up button node.
+ */
+const SCROLL_UP_CLASS = 'p-Menu-scrollUp';
+
+/**
+ * The class name added to a menu scroll down button node.
+ */
+const SCROLL_DOWN_CLASS = 'p-Menu-scrollDown';
+
 /**
  * The class name added to a menu item node.
  */
@@ -75,6 +110,11 @@ const SUBMENU_CLASS = 'p-Menu-itemSubmenuIcon';
  */
 const CHECK_TYPE_CLASS = 'p-type-check';
 
+/**
+ * The class name added to a radio type menu item.
+ */
+const RADIO_TYPE_CLASS = 'p-type-radio';
+
 /**
  * The class name added to a separator type menu item.
  */
@@ -106,34 +146,356 @@ const CHECKED_CLASS = 'p-mod-checked';
 const HIDDEN_CLASS = 'p-mod-hidden';
 
 /**
- * The ms delay for opening a submenu.
+ * The class name added to a menu which uses scroll buttons.
+ */
+const SCROLL_BUTTONS_CLASS = 'p-mod-scroll-buttons';
+
+/**
+ * The class name added to a menu opened by touch input.
+ */
+const TOUCH_CLASS = 'p-mod-touch';
+
+/**
+ * The class name added to a right-to-left menu.
+ */
+const RTL_CLASS = 'p-mod-rtl';
+
+/**
+ * The class name added to a menu for the first frame after it opens.
+ */
+const OPENING_CLASS = 'p-mod-opening';
+
+/**
+ * The class name added to a menu while its close animation runs.
+ */
+const CLOSING_CLASS = 'p-mod-closing';
+
+/**
+ * The class name added to a menu whose content overflows.
+ */
+const OVERFLOW_CLASS = 'p-mod-overflow';
+
+/**
+ * The default ms delay for opening a submenu.
  */
 const OPEN_DELAY = 300;
 
 /**
- * The ms delay for closing a submenu.
+ * The default ms delay for closing a submenu.
  */
 const CLOSE_DELAY = 300;
 
 /**
- * The horizontal px overlap for open submenus.
+ * The default horizontal px overlap for open submenus.
  */
 const SUBMENU_OVERLAP = 3;
 
+/**
+ * The ms delay before rechecking a suppressed hover while aiming.
+ */
+const AIM_DELAY = 100;
+
+/**
+ * The px tolerance added to the edges of a submenu aiming triangle.
+ */
+const AIM_TOLERANCE = 20;
+
+/**
+ * The minimum px/ms pointer speed considered to be aiming.
+ */
+const AIM_MIN_SPEED = 0.05;
+
+/**
+ * The ms interval between steps when auto-scrolling a menu.
+ */
+const SCROLL_INTERVAL = 30;
+
+/**
+ * The px distance scrolled per step when auto-scrolling a menu.
+ */
+const SCROLL_STEP = 6;
+
+/**
+ * The px distance scrolled per line of a line based wheel event.
+ */
+const WHEEL_LINE_HEIGHT = 16;
+
+/**
+ * The extra ms to wait for a close animation before detaching a menu.
+ */
+const ANIMATION_GRACE = 50;
+
+/**
+ * The px distance a touch may move and still be considered a tap.
+ */
+const TAP_TOLERANCE = 10;
+
+/**
+ * The number of extra item nodes rendered around a virtual window.
+ */
+const VIRTUAL_OVERSCAN = 3;
+
+
+/**
+ * A rect in client coordinates which constrains the placement of menus.
+ */
+export
+interface IMenuBoundaryRect {
+  /**
+   * The client X coordinate of the left edge of the rect.
+   */
+  x: number;
+
+  /**
+   * The client Y coordinate of the top edge of the rect.
+   */
+  y: number;
+
+  /**
+   * The width of the rect.
+   */
+  width: number;
+
+  /**
+   * The height of the rect.
+   */
+  height: number;
+}
+
+
+/**
+ * A type alias for the region within which menus are placed.
+ *
+ * #### Notes
+ * An element boundary is measured each time a menu is opened.
+ */
+export
+type MenuBoundary = HTMLElement | IMenuBoundaryRect;
+
+
+/**
+ * A type alias for the layout direction of a menu.
+ *
+ * #### Notes
+ * An `'auto'` direction is detected from the `direction` style of
+ * the document when the menu is opened.
+ */
+export
+type MenuDirection = 'auto' | 'ltr' | 'rtl';
+
+
+/**
+ * A type alias for the reason a menu was closed.
+ *
+ * #### Notes
+ * - `'trigger'`: an item of the menu hierarchy was triggered.
+ * - `'escape'`: the Escape key was pressed.
+ * - `'outside'`: the mouse was pressed outside the menu hierarchy.
+ * - `'navigate'`: a submenu was closed by keyboard or mouse navigation.
+ * - `'menubar'`: the owning menu bar closed or switched menus.
+ * - `'api'`: the menu was closed by a direct call to `close()`.
+ *
+ * A submenu which is closed along with its parent menu reports the
+ * reason of the parent menu.
+ */
+export
+type MenuCloseReason = (
+  'trigger' | 'escape' | 'outside' | 'navigate' | 'menubar' | 'api'
+);
+
+
+/**
+ * The arguments object for the `closed` signal of a menu.
+ */
+export
+interface IMenuClosedArgs {
+  /**
+   * The reason the menu was closed.
+   */
+  reason: MenuCloseReason;
+
+  /**
+   * The item which was triggered, or `null` if no item was triggered.
+   */
+  item: MenuItem;
+}
+
+
+/**
+ * An options object for initializing a menu.
+ */
+export
+interface IMenuOptions {
+  /**
+   * The ms delay for opening a submenu on hover.
+   */
+  openDelay?: number;
+
+  /**
+   * The ms delay for closing a submenu when another item is hovered.
+   */
+  closeDelay?: number;
+
+  /**
+   * The horizontal px overlap for open submenus.
+   */
+  submenuOverlap?: number;
+
+  /**
+   * Whether hovering a submenu item opens its submenu.
+   *
+   * When this is `false`, a submenu is only opened by a click or by
+   * the keyboard.
+   */
+  openOnHover?: boolean;
+
+  /**
+   * Whether an overflowing menu is scrolled with scroll buttons.
+   *
+   * When this is `true`, a menu which is taller than the available
+   * space shows up and down arrow regions in place of a scrollbar.
+   */
+  scrollButtons?: boolean;
+
+  /**
+   * Whether the menu only renders the item nodes in view.
+   *
+   * When this is `true`, item nodes are created only for the visible
+   * window of items, which allows menus with thousands of items to
+   * open quickly. All items are assumed to have a uniform height.
+   */
+  virtualized?: boolean;
+
+  /**
+   * The region within which the menu and its submenus are placed.
+   *
+   * When this is `null`, the menu is placed within the viewport.
+   */
+  boundary?: MenuBoundary;
+
+  /**
+   * The layout direction of the menu.
+   *
+   * A right-to-left menu opens its submenus to the left, and swaps
+   * the meaning of the left and right arrow keys.
+   */
+  direction?: MenuDirection;
+
+  /**
+   * Whether the menu plays CSS open and close animations.
+   *
+   * When this is `true`, the menu is detached after its close
+   * transition or animation ends, instead of immediately.
+   */
+  animated?: boolean;
+
+  /**
+   * Whether triggering an item leaves the menu hierarchy open.
+   *
+   * This is the default for items which do not set `keepOpen`.
+   */
+  keepOpen?: boolean;
+}
+
+
+/**
+ * A type alias for the placement of a menu relative to an anchor.
+ *
+ * #### Notes
+ * The first part is the side of the anchor on which the menu is
+ * placed. The optional second part aligns the start or end edge of
+ * the menu with the same edge of the anchor. The menu is centered on
+ * the anchor when the alignment is omitted.
+ */
+export
+type MenuPlacement = (
+  'top' | 'top-start' | 'top-end' |
+  'bottom' | 'bottom-start' | 'bottom-end' |
+  'left' | 'left-start' | 'left-end' |
+  'right' | 'right-start' | 'right-end'
+);
+
+
+/**
+ * An options object for opening a menu at an anchor element.
+ */
+export
+interface IPopupAtOptions {
+  /**
+   * The placement of the menu relative to the anchor.
+   *
+   * The default is `'bottom-start'`.
+   */
+  placement?: MenuPlacement;
+
+  /**
+   * The px distance between the anchor and the menu.
+   *
+   * The default is `0`.
+   */
+  offset?: number;
+
+  /**
+   * Whether the menu is moved to the opposite side of the anchor if
+   * it does not fit on the preferred side.
+   *
+   * The default is `true`.
+   */
+  flip?: boolean;
+
+  /**
+   * Whether the menu is shifted along the anchor to keep it on screen.
+   *
+   * The default is `true`.
+   */
+  shift?: boolean;
+}
+
 
 /**
  * A widget which displays menu items as a popup menu.
  */
 export
 class Menu extends AbstractMenu {
+  /**
+   * The default options for new menus.
+   *
+   * #### Notes
+   * The values in this object are used for any option which is not
+   * provided to the menu constructor. Modifying this object affects
+   * menus which are created afterward.
+   */
+  static defaultOptions: IMenuOptions = {
+    openDelay: OPEN_DELAY,
+    closeDelay: CLOSE_DELAY,
+    submenuOverlap: SUBMENU_OVERLAP,
+    openOnHover: true,
+    scrollButtons: false,
+    virtualized: false,
+    boundary: null,
+    direction: 'auto',
+    animated: false,
+    keepOpen: false,
+  };
+
   /**
    * Create the DOM node for a menu.
    */
   static createNode(): HTMLElement {
     let node = document.createElement('div');
+    let up = document.createElement('div');
     let content = document.createElement('ul');
+    let down = document.createElement('div');
+    up.className = SCROLL_BUTTON_CLASS + ' ' + SCROLL_UP_CLASS;
+    down.className = SCROLL_BUTTON_CLASS + ' ' + SCROLL_DOWN_CLASS;
+    up.setAttribute('aria-hidden', 'true');
+    down.setAttribute('aria-hidden', 'true');
     content.className = CONTENT_CLASS;
+    content.tabIndex = -1;
+    content.setAttribute('role', 'menu');
+    node.appendChild(up);
     node.appendChild(content);
+    node.appendChild(down);
     return node;
   }
 
@@ -152,9 +514,12 @@ class Menu extends AbstractMenu {
     let shortcut = document.createElement('span');
     let submenu = document.createElement('span');
     node.className = ITEM_CLASS;
+    node.tabIndex = -1;
     text.className = TEXT_CLASS;
     shortcut.className = SHORTCUT_CLASS;
     submenu.className = SUBMENU_CLASS;
+    icon.setAttribute('aria-hidden', 'true');
+    submenu.setAttribute('aria-hidden', 'true');
     node.appendChild(icon);
     node.appendChild(text);
     node.appendChild(shortcut);
@@ -182,10 +547,13 @@ class Menu extends AbstractMenu {
     let icon = node.firstChild as HTMLElement;
     let text = icon.nextSibling as HTMLElement;
     let shortcut = text.nextSibling as HTMLElement;
+    let iconClass = itemIcon(item);
+    let keys = formatShortcut(itemShortcut(item));
     node.className = MenuPrivate.createItemClass(item);
-    icon.className = ICON_CLASS + (item.icon ? ' ' + item.icon : '');
-    text.textContent = sep ? '' : item.text.replace(/&/g, '');
-    shortcut.textContent = (sep || sub) ? '' : item.shortcut;
+    MenuPrivate.updateItemAria(node, item);
+    icon.className = ICON_CLASS + (iconClass ? ' ' + iconClass : '');
+    text.textContent = sep ? '' : itemText(item).replace(/&/g, '');
+    shortcut.textContent = (sep || sub) ? '' : keys;
   }
 
   /**
@@ -193,13 +561,18 @@ class Menu extends AbstractMenu {
    *
    * @param items - Optional menu items to initialize the menu.
    *
+   * @param options - Optional options to initialize the menu.
+   *
    * #### Notes
    * Subclasses should not pass menu items to `super`. The subclass
    * should set its own items after it has been fully initialized.
    */
-  constructor(items?: MenuItem[]) {
+  constructor(items?: MenuItem[], options?: IMenuOptions) {
     super();
     this.addClass(MENU_CLASS);
+    trackPointerInput();
+    MenuPrivate.initFrom(this, Menu.defaultOptions);
+    if (options) MenuPrivate.initFrom(this, options);
     if (items) this.items = items;
   }
 
@@ -208,94 +581,322 @@ class Menu extends AbstractMenu {
    */
   dispose(): void {
     this.close();
+    this._finishClosing();
     super.dispose();
   }
 
   /**
    * A signal emitted when the menu item is closed.
+   *
+   * #### Notes
+   * The arguments report why the menu was closed, and the item which
+   * was triggered, if any.
    */
-  get closed(): ISignal<Menu, void> {
+  get closed(): ISignal<Menu, IMenuClosedArgs> {
     return MenuPrivate.closedSignal.bind(this);
   }
 
   /**
-   * Get the parent menu of the menu.
+   * A signal emitted just before the menu is shown.
    *
    * #### Notes
-   * This will be `null` if the menu is not an open submenu.
-   *
-   * This is a read-only property.
+   * This is emitted for root menus and submenus alike, before the
+   * item nodes are updated and the menu is measured. A handler may
+   * modify the menu items or their state, which allows the contents
+   * of a dynamic menu to be populated lazily.
    */
-  get parentMenu(): Menu {
-    return this._parentMenu;
+  get aboutToShow(): ISignal<Menu, void> {
+    return MenuPrivate.aboutToShowSignal.bind(this);
   }
 
   /**
-   * Get the child menu of the menu.
+   * Get the ms delay for opening a submenu on hover.
+   */
+  get openDelay(): number {
+    return this._openDelay;
+  }
+
+  /**
+   * Set the ms delay for opening a submenu on hover.
    *
    * #### Notes
-   * This will be `null` if the menu does not have an open submenu.
-   *
-   * This is a read-only property.
+   * A delay of `0` opens the submenu immediately.
    */
-  get childMenu(): Menu {
-    return this._childMenu;
+  set openDelay(value: number) {
+    this._openDelay = Math.max(0, value);
   }
 
   /**
-   * Find the root menu of this menu hierarchy.
+   * Get the ms delay for closing a submenu.
+   */
+  get closeDelay(): number {
+    return this._closeDelay;
+  }
+
+  /**
+   * Set the ms delay for closing a submenu.
    *
    * #### Notes
-   * This is a read-only property.
+   * This is the delay before an open submenu is closed after another
+   * item in the menu is hovered.
    */
-  get rootMenu(): Menu {
-    let menu: Menu = this;
-    while (menu._parentMenu) {
-      menu = menu._parentMenu;
-    }
-    return menu;
+  set closeDelay(value: number) {
+    this._closeDelay = Math.max(0, value);
   }
 
   /**
-   * Find the leaf menu of this menu hierarchy.
+   * Get the horizontal px overlap for open submenus.
+   */
+  get submenuOverlap(): number {
+    return this._submenuOverlap;
+  }
+
+  /**
+   * Set the horizontal px overlap for open submenus.
+   */
+  set submenuOverlap(value: number) {
+    this._submenuOverlap = value;
+  }
+
+  /**
+   * Get whether hovering a submenu item opens its submenu.
+   */
+  get openOnHover(): boolean {
+    return this._openOnHover;
+  }
+
+  /**
+   * Set whether hovering a submenu item opens its submenu.
    *
    * #### Notes
-   * This is a read-only property.
+   * When this is `false`, the menu operates in click-only mode and
+   * a submenu is only opened by a click or by the keyboard.
    */
-  get leafMenu(): Menu {
-    let menu: Menu = this;
-    while (menu._childMenu) {
-      menu = menu._childMenu;
-    }
-    return menu;
+  set openOnHover(value: boolean) {
+    this._openOnHover = value;
   }
 
   /**
-   * Get the menu content node.
+   * Get whether an overflowing menu is scrolled with scroll buttons.
+   */
+  get scrollButtons(): boolean {
+    return this.hasClass(SCROLL_BUTTONS_CLASS);
+  }
+
+  /**
+   * Set whether an overflowing menu is scrolled with scroll buttons.
    *
    * #### Notes
-   * This is the node which holds the menu item nodes.
+   * When this is `true`, the menu shows up and down arrow regions
+   * which scroll the menu while hovered, in place of a scrollbar.
    *
-   * Modifying this node directly can lead to undefined behavior.
-   *
-   * This is a read-only property.
+   * Changing this value takes effect the next time the menu opens.
    */
-  get contentNode(): HTMLElement {
-    return this.node.getElementsByClassName(CONTENT_CLASS)[0] as HTMLElement;
+  set scrollButtons(value: boolean) {
+    this.toggleClass(SCROLL_BUTTONS_CLASS, value);
   }
 
   /**
-   * Open the submenu of the active item, if possible.
+   * Get whether the menu only renders the item nodes in view.
+   */
+  get virtualized(): boolean {
+    return this._virtualized;
+  }
+
+  /**
+   * Set whether the menu only renders the item nodes in view.
    *
    * #### Notes
-   * This is a no-op if the menu is not visible, if there is no active
-   * item, or if the active item is disabled or has a null submenu.
+   * A virtualized menu creates item nodes only for the window of
+   * items which is scrolled into view, and recycles the nodes as the
+   * menu is scrolled. The height of every item is assumed to be the
+   * height of the first non-separator item, and the width of the menu
+   * is fixed when it is opened.
+   *
+   * Changing this value closes the menu and recreates the item nodes.
    */
-  openActiveItem(): void {
-    if (!this.isVisible) {
+  set virtualized(value: boolean) {
+    if (this._virtualized === value) {
       return;
     }
-    let index = this.activeIndex;
+    this.close();
+    this._virtualized = value;
+    this._resetNodes();
+    this.onItemsChanged(this.items, this.items);
+  }
+
+  /**
+   * Get the region within which the menu is placed.
+   */
+  get boundary(): MenuBoundary {
+    return this._boundary;
+  }
+
+  /**
+   * Set the region within which the menu is placed.
+   *
+   * #### Notes
+   * The menu is flipped and shifted to stay within the boundary. The
+   * visible part of the boundary is used, so a menu is never placed
+   * outside of the viewport.
+   *
+   * A submenu without its own boundary uses the boundary of its
+   * parent menu. A `null` boundary uses the viewport.
+   *
+   * Changing this value takes effect the next time the menu opens.
+   */
+  set boundary(value: MenuBoundary) {
+    this._boundary = value || null;
+  }
+
+  /**
+   * Get the layout direction of the menu.
+   */
+  get direction(): MenuDirection {
+    return this._direction;
+  }
+
+  /**
+   * Set the layout direction of the menu.
+   *
+   * #### Notes
+   * An `'auto'` submenu uses the direction of its parent menu. An
+   * `'auto'` root menu uses the direction of the anchor element or of
+   * the element which has the focus when it opens, which is the item
+   * node for a menu opened by a menu bar.
+   *
+   * The `p-mod-rtl` class is added to a menu which is opened in the
+   * right-to-left direction.
+   *
+   * Changing this value takes effect the next time the menu opens.
+   */
+  set direction(value: MenuDirection) {
+    this._direction = value;
+  }
+
+  /**
+   * Get whether the menu plays CSS open and close animations.
+   */
+  get animated(): boolean {
+    return this._animated;
+  }
+
+  /**
+   * Set whether the menu plays CSS open and close animations.
+   *
+   * #### Notes
+   * When the menu opens, the `p-mod-opening` class is added for the
+   * first frame, so that the menu can transition from the styles of
+   * that class.
+   *
+   * When the menu closes, the `p-mod-closing` class is added and the
+   * menu is detached when its transition or animation ends, or when
+   * the computed duration of the animation has elapsed. The `closed`
+   * signal is emitted after the menu is detached.
+   *
+   * Animations are skipped for users who prefer reduced motion.
+   */
+  set animated(value: boolean) {
+    this._animated = value;
+  }
+
+  /**
+   * Get whether triggering an item leaves the menu hierarchy open.
+   */
+  get keepOpen(): boolean {
+    return this._keepOpen;
+  }
+
+  /**
+   * Set whether triggering an item leaves the menu hierarchy open.
+   *
+   * #### Notes
+   * This is the default for the items of the menu whose `keepOpen`
+   * is `null`. It is useful for menus of check and radio items which
+   * are often toggled together.
+   */
+  set keepOpen(value: boolean) {
+    this._keepOpen = value;
+  }
+
+  /**
+   * Get the parent menu of the menu.
+   *
+   * #### Notes
+   * This will be `null` if the menu is not an open submenu.
+   *
+   * This is a read-only property.
+   */
+  get parentMenu(): Menu {
+    return this._parentMenu;
+  }
+
+  /**
+   * Get the child menu of the menu.
+   *
+   * #### Notes
+   * This will be `null` if the menu does not have an open submenu.
+   *
+   * This is a read-only property.
+   */
+  get childMenu(): Menu {
+    return this._childMenu;
+  }
+
+  /**
+   * Find the root menu of this menu hierarchy.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get rootMenu(): Menu {
+    let menu: Menu = this;
+    while (menu._parentMenu) {
+      menu = menu._parentMenu;
+    }
+    return menu;
+  }
+
+  /**
+   * Find the leaf menu of this menu hierarchy.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get leafMenu(): Menu {
+    let menu: Menu = this;
+    while (menu._childMenu) {
+      menu = menu._childMenu;
+    }
+    return menu;
+  }
+
+  /**
+   * Get the menu content node.
+   *
+   * #### Notes
+   * This is the node which holds the menu item nodes.
+   *
+   * Modifying this node directly can lead to undefined behavior.
+   *
+   * This is a read-only property.
+   */
+  get contentNode(): HTMLElement {
+    return this.node.getElementsByClassName(CONTENT_CLASS)[0] as HTMLElement;
+  }
+
+  /**
+   * Open the submenu of the active item, if possible.
+   *
+   * #### Notes
+   * This is a no-op if the menu is not visible, if there is no active
+   * item, or if the active item is disabled or has a null submenu.
+   */
+  openActiveItem(): void {
+    if (!this.isVisible) {
+      return;
+    }
+    let index = this.activeIndex;
     if (index === -1) {
       return;
     }
@@ -307,17 +908,46 @@ class Menu extends AbstractMenu {
     this._childMenu.activateNextItem();
   }
 
+  /**
+   * Activate the next selectable menu item with the given mnemonic.
+   *
+   * #### Notes
+   * An item activated by its mnemonic is triggered with a `'mnemonic'`
+   * source until the active item changes again.
+   */
+  activateMnemonicItem(char: string): void {
+    super.activateMnemonicItem(char);
+    this._mnemonicActive = this.activeIndex !== -1;
+  }
+
   /**
    * Trigger the handler of the active item, if possible.
    *
+   * @param source - The input which triggered the item. The default
+   *   is `'mnemonic'` if the active item was reached by its mnemonic,
+   *   and `'keyboard'` otherwise.
+   *
    * #### Notes
    * This is a no-op if the menu is not visible, if there is no
    * active item, or if the active item is disabled.
+   *
+   * If the active item has a command, the command is executed in
+   * place of the item handler.
+   *
+   * The `triggered` signal is emitted before the menu hierarchy is
+   * closed. It is not emitted for an item which opens a submenu.
+   *
+   * If the item keeps the menu open, the menu hierarchy is left open
+   * and the menu is updated after the item is invoked, so that state
+   * changes such as the checked state are displayed in place.
    */
-  triggerActiveItem(): void {
+  triggerActiveItem(source?: TriggerSource): void {
     if (!this.isVisible) {
       return;
     }
+    if (source === void 0) {
+      source = this._mnemonicActive ? 'mnemonic' : 'keyboard';
+    }
     let index = this.activeIndex;
     if (index === -1) {
       return;
@@ -331,12 +961,27 @@ class Menu extends AbstractMenu {
       this._childMenu.activateNextItem();
       return;
     }
+    let command = item.command;
+    if (command && !commands.isEnabled(command)) {
+      return;
+    }
     let handler = item.handler;
-    if (!handler) {
+    if (!command && !handler) {
       return;
     }
-    this.rootMenu.close();
-    handler(item);
+    this._emitTriggered(item, source);
+    let keepOpen = item.keepOpen !== null ? item.keepOpen : this._keepOpen;
+    if (!keepOpen) {
+      this.rootMenu._closeFor({ reason: 'trigger', item: item });
+    }
+    if (command) {
+      commands.execute(command);
+    } else {
+      handler(item);
+    }
+    if (keepOpen) {
+      this.update();
+    }
   }
 
   /**
@@ -352,6 +997,11 @@ class Menu extends AbstractMenu {
    * when the mouse is pressed outside of the menu hierarchy. To
    * prevent these actions, use the [[open]] method instead.
    *
+   * A popup menu opened with the keyboard takes the keyboard focus,
+   * and the focus will be restored to the previously focused element
+   * when it is closed. A menu opened with a pointer leaves the focus
+   * in place, and still handles the navigation keys.
+   *
    * @param x - The client X coordinate of the popup location.
    *
    * @param y - The client Y coordinate of the popup location.
@@ -366,14 +1016,56 @@ class Menu extends AbstractMenu {
    * **See also:** [[open]]
    */
   popup(x: number, y: number, forceX = false, forceY = false): void {
+    this._finishClosing();
     if (!this.isAttached) {
+      this.aboutToShow.emit(void 0);
       document.addEventListener('keydown', this, true);
       document.addEventListener('keypress', this, true);
       document.addEventListener('mousedown', this, true);
+      this._previousFocus = document.activeElement as HTMLElement;
+      MenuPrivate.boundaryProperty.set(this, this._boundary);
       MenuPrivate.openRootMenu(this, x, y, forceX, forceY);
+      if (isKeyboardInput()) {
+        this.contentNode.focus();
+      }
     }
   }
 
+  /**
+   * Popup the menu and wait for an item to be chosen.
+   *
+   * @param x - The client X coordinate of the popup location.
+   *
+   * @param y - The client Y coordinate of the popup location.
+   *
+   * @param forceX - Whether the X coordinate must be obeyed.
+   *
+   * @param forceY - Whether the Y coordinate must be obeyed.
+   *
+   * @returns A promise which resolves with the triggered item when
+   *   the menu is closed, or with `null` if the menu is dismissed.
+   *
+   * #### Notes
+   * The menu is opened with [[popup]], and the command or handler of
+   * the triggered item is invoked as usual before the promise resolves.
+   *
+   * If the menu is already open, the promise resolves when it closes.
+   * Items which keep the menu open do not resolve the promise.
+   *
+   * This requires a global `Promise`, which must be polyfilled on
+   * browsers which do not provide one.
+   */
+  exec(x: number, y: number, forceX = false, forceY = false): Promise<MenuItem> {
+    return new Promise<MenuItem>(resolve => {
+      let onClosed = (sender: Menu, args: IMenuClosedArgs) => {
+        this.closed.disconnect(onClosed);
+        resolve(args.item);
+      };
+      this.closed.connect(onClosed);
+      this.popup(x, y, forceX, forceY);
+    });
+  }
+
   /**
    * Open the menu at the specified location.
    *
@@ -388,6 +1080,10 @@ class Menu extends AbstractMenu {
    * menu from a menubar, where the menubar should handle these tasks.
    * Use the [[popup]] method for the alternative behavior.
    *
+   * If the menu hierarchy has the keyboard focus when it is closed,
+   * the focus will be restored to the element which was focused when
+   * the menu was opened.
+   *
    * @param x - The client X coordinate of the popup location.
    *
    * @param y - The client Y coordinate of the popup location.
@@ -396,17 +1092,80 @@ class Menu extends AbstractMenu {
    *
    * @param forceY - Whether the Y coordinate must be obeyed.
    *
+   * @param boundary - The region within which to place the menu if
+   *   the menu does not have a boundary of its own.
+   *
+   * @param direction - The layout direction to use if the direction
+   *   of the menu is `'auto'`. If this is also `'auto'`, the direction
+   *   is detected from the focused element.
+   *
    * #### Notes
    * This is a no-op if the menu is already attached to the DOM.
    *
    * **See also:** [[popup]]
    */
-  open(x: number, y: number, forceX = false, forceY = false): void {
+  open(
+    x: number, y: number, forceX = false, forceY = false,
+    boundary: MenuBoundary = null, direction: MenuDirection = 'auto'
+  ): void {
+    this._finishClosing();
     if (!this.isAttached) {
-      MenuPrivate.openRootMenu(this, x, y, forceX, forceY);
+      this.aboutToShow.emit(void 0);
+      this._previousFocus = document.activeElement as HTMLElement;
+      MenuPrivate.boundaryProperty.set(this, this._boundary || boundary);
+      MenuPrivate.openRootMenu(this, x, y, forceX, forceY, direction);
+    }
+  }
+
+  /**
+   * Popup the menu at the position of an anchor element.
+   *
+   * @param anchor - The element against which the menu is placed.
+   *
+   * @param options - The options for placing the menu.
+   *
+   * #### Notes
+   * The menu is positioned against the client rect of the anchor. If
+   * the menu does not fit on the preferred side of the anchor and the
+   * `flip` option is enabled, it is placed on the opposite side when
+   * that side has room, or when neither side has room and the other
+   * side has more. A menu above or below the anchor is limited to the
+   * height available on its side. If the `shift` option is enabled,
+   * the menu is then moved along the anchor to keep it on screen.
+   *
+   * For a right-to-left menu, the `start` and `end` alignments of the
+   * top and bottom placements are mirrored.
+   *
+   * The menu is otherwise handled the same as [[popup]].
+   *
+   * This is a no-op if the menu is already attached to the DOM.
+   */
+  popupAt(anchor: HTMLElement, options: IPopupAtOptions = {}): void {
+    this._finishClosing();
+    if (!this.isAttached) {
+      this.aboutToShow.emit(void 0);
+      document.addEventListener('keydown', this, true);
+      document.addEventListener('keypress', this, true);
+      document.addEventListener('mousedown', this, true);
+      this._previousFocus = document.activeElement as HTMLElement;
+      MenuPrivate.boundaryProperty.set(this, this._boundary);
+      MenuPrivate.openAnchoredMenu(this, anchor, options);
+      if (isKeyboardInput()) {
+        this.contentNode.focus();
+      }
     }
   }
 
+  /**
+   * Close the menu and any open submenus.
+   *
+   * @param reason - The close reason reported by the `closed` signal.
+   *   The default is `'api'`.
+   */
+  close(reason: MenuCloseReason = 'api'): void {
+    this._closeFor({ reason: reason, item: null });
+  }
+
   /**
    * Handle the DOM events for the menu.
    *
@@ -431,6 +1190,28 @@ class Menu extends AbstractMenu {
     case 'mouseup':
       this._evtMouseUp(event as MouseEvent);
       break;
+    case 'pointerdown':
+      this._evtPointerDown(event as PointerEvent);
+      break;
+    case 'pointerup':
+      this._evtPointerUp(event as PointerEvent);
+      break;
+    case 'pointercancel':
+      this._tap = null;
+      break;
+    case 'click':
+      this._evtClick(event as MouseEvent);
+      break;
+    case 'wheel':
+      this._evtWheel(event as WheelEvent);
+      break;
+    case 'scroll':
+      if (this._virtualized) this._renderWindow(false);
+      break;
+    case 'transitionend':
+    case 'animationend':
+      if (event.target === this.node) this._finishClosing();
+      break;
     case 'keydown':
       this._evtKeyDown(event as KeyboardEvent);
       break;
@@ -458,9 +1239,30 @@ class Menu extends AbstractMenu {
     if (item.type === MenuItem.Submenu) {
       return !!item.submenu;
     }
+    if (item.command) {
+      return commands.isEnabled(item.command);
+    }
     return !!item.handler;
   }
 
+  /**
+   * Get the number of items in a page of the menu.
+   *
+   * @returns The number of items which fit in the visible height.
+   *
+   * #### Notes
+   * This is computed from the height of the menu and the height of
+   * the active item, or the first item if there is no active item.
+   */
+  protected pageSize(): number {
+    let node = this._nodes[Math.max(0, this.activeIndex)];
+    let height = node ? node.offsetHeight : this._itemHeight;
+    if (!this.isAttached || height === 0) {
+      return super.pageSize();
+    }
+    return Math.max(1, Math.floor(this.node.clientHeight / height));
+  }
+
   /**
    * A method invoked when the menu items change.
    *
@@ -470,8 +1272,18 @@ class Menu extends AbstractMenu {
    */
   protected onItemsChanged(oldItems: MenuItem[], newItems: MenuItem[]): void {
     // Reset the menu before changing the items.
+    this._mnemonicActive = false;
     this.close();
 
+    // A virtualized menu creates its item nodes on demand.
+    if (this._virtualized) {
+      this._resetNodes();
+      for (let i = 0, n = newItems.length; i < n; ++i) {
+        this._nodes.push(null);
+      }
+      return;
+    }
+
     // Fetch common variables.
     let nodes = this._nodes;
     let content = this.contentNode;
@@ -500,21 +1312,58 @@ class Menu extends AbstractMenu {
    * @param oldIndex - The old active index.
    *
    * @param newIndex - The new active index.
+   *
+   * #### Notes
+   * The active item node only takes the focus if the menu hierarchy
+   * already has the focus, so that mouse hover over a menu opened
+   * with [[open]] does not steal the focus from the page.
    */
   protected onActiveIndexChanged(oldIndex: number, newIndex: number): void {
+    this._mnemonicActive = false;
+    if (this._virtualized && newIndex !== -1 && this.isAttached) {
+      this._scrollToIndex(newIndex);
+    }
     let oldNode = this._nodes[oldIndex];
     let newNode = this._nodes[newIndex];
-    if (oldNode) oldNode.classList.remove(ACTIVE_CLASS);
-    if (newNode) newNode.classList.add(ACTIVE_CLASS);
+    if (oldNode) {
+      oldNode.classList.remove(ACTIVE_CLASS);
+      oldNode.tabIndex = -1;
+    }
+    if (newNode) {
+      newNode.classList.add(ACTIVE_CLASS);
+      newNode.tabIndex = 0;
+    }
+    if (newNode && this.isAttached) {
+      MenuPrivate.scrollIntoView(this, newNode);
+    }
+    if (this.isAttached && MenuPrivate.hierarchyHasFocus(this.rootMenu)) {
+      this._focusActiveNode();
+    }
   }
 
   /**
    * A message handler invoked on a `'close-request'` message.
    */
   protected onCloseRequest(msg: Message): void {
+    // Take the close arguments provided by the caller, if any.
+    let args = this._closeArgs || { reason: 'api' as MenuCloseReason, item: null };
+    this._closeArgs = null;
+
+    // Bail early if the close animation is already running.
+    if (this._pendingClose) {
+      return;
+    }
+
+    // Record whether the menu hierarchy has the focus.
+    let hadFocus = MenuPrivate.hierarchyHasFocus(this);
+
     // Reset the menu state.
     this._cancelPendingOpen();
     this._cancelPendingClose();
+    this._cancelPendingAim();
+    this._stopAutoScroll();
+    this._pointer = null;
+    this._tap = null;
     this.activeIndex = -1;
 
     // Close any open child menu.
@@ -522,8 +1371,9 @@ class Menu extends AbstractMenu {
     if (childMenu) {
       this._childMenu = null;
       this._childItem = null;
+      this._updateExpanded();
       childMenu._parentMenu = null;
-      childMenu.close();
+      childMenu._closeFor(args);
     }
 
     // Remove this menu from any parent.
@@ -534,22 +1384,36 @@ class Menu extends AbstractMenu {
       parentMenu._cancelPendingClose();
       parentMenu._childMenu = null;
       parentMenu._childItem = null;
+      parentMenu._updateExpanded();
     }
 
-    // Ensure this menu is detached.
+    // Ensure this menu is detached, after the close animation if the
+    // menu is animated.
     if (this.parent) {
       this.parent = null;
-      this.closed.emit(void 0);
-    } else if (this.isAttached) {
+    } else if (!this.isAttached) {
+      return;
+    } else if (this._animated && !MenuPrivate.prefersReducedMotion()) {
+      this._startClosing(hadFocus, parentMenu, args);
+      return;
+    } else {
       this.detach();
-      this.closed.emit(void 0);
     }
+
+    // Finish closing the menu.
+    this._afterClose(hadFocus, parentMenu, args);
   }
 
   /**
    * A handler invoked on an `'update-request'` message.
    */
   protected onUpdateRequest(msg: Message): void {
+    // A virtualized menu only updates the rendered item nodes.
+    if (this._virtualized) {
+      if (this.isAttached) this._renderWindow(true);
+      return;
+    }
+
     // Fetch common variables.
     let items = this.items;
     let nodes = this._nodes;
@@ -558,11 +1422,18 @@ class Menu extends AbstractMenu {
     // Update the state of the item nodes.
     for (let i = 0, n = items.length; i < n; ++i) {
       constructor.updateItemNode(nodes[i], items[i]);
+      nodes[i].tabIndex = -1;
     }
 
-    // Restore the active node class.
+    // Restore the active node class and tab index.
     let active = nodes[this.activeIndex];
-    if (active) active.classList.add(ACTIVE_CLASS);
+    if (active) {
+      active.classList.add(ACTIVE_CLASS);
+      active.tabIndex = 0;
+    }
+
+    // Restore the expanded state of the open submenu item.
+    this._updateExpanded();
 
     // Hide the redundant and useless menu item nodes.
     MenuPrivate.hideUselessItems(nodes, items);
@@ -576,6 +1447,20 @@ class Menu extends AbstractMenu {
     this.node.addEventListener('mousemove', this);
     this.node.addEventListener('mouseleave', this);
     this.node.addEventListener('contextmenu', this);
+    this.node.addEventListener('pointerdown', this);
+    this.node.addEventListener('pointerup', this);
+    this.node.addEventListener('pointercancel', this);
+    this.node.addEventListener('click', this);
+    this.node.addEventListener('wheel', this);
+    this.node.addEventListener('scroll', this, true);
+    this.node.addEventListener('transitionend', this);
+    this.node.addEventListener('animationend', this);
+    commands.commandChanged.connect(this._onCommandChanged, this);
+    if (this._virtualized) {
+      this._itemHeight = 0;
+      MenuPrivate.scrollNode(this).scrollTop = 0;
+      this._renderWindow(true);
+    }
   }
 
   /**
@@ -586,6 +1471,15 @@ class Menu extends AbstractMenu {
     this.node.removeEventListener('mousemove', this);
     this.node.removeEventListener('mouseleave', this);
     this.node.removeEventListener('contextmenu', this);
+    this.node.removeEventListener('pointerdown', this);
+    this.node.removeEventListener('pointerup', this);
+    this.node.removeEventListener('pointercancel', this);
+    this.node.removeEventListener('click', this);
+    this.node.removeEventListener('wheel', this);
+    this.node.removeEventListener('scroll', this, true);
+    this.node.removeEventListener('transitionend', this);
+    this.node.removeEventListener('animationend', this);
+    commands.commandChanged.disconnect(this._onCommandChanged, this);
     document.removeEventListener('keydown', this, true);
     document.removeEventListener('keypress', this, true);
     document.removeEventListener('mousedown', this, true);
@@ -597,7 +1491,38 @@ class Menu extends AbstractMenu {
   private _evtMouseMove(event: MouseEvent): void {
     let x = event.clientX;
     let y = event.clientY;
-    let i = arrays.findIndex(this._nodes, node => hitTest(node, x, y));
+    let prev = this._pointer;
+    let curr = { x: x, y: y, time: Date.now() };
+    this._pointer = curr;
+    this._cancelPendingAim();
+    let direction = MenuPrivate.hitTestScrollButtons(this, x, y);
+    if (direction !== 0) {
+      this._startAutoScroll(direction);
+      return;
+    }
+    this._stopAutoScroll();
+    let i = this._hitTestItems(x, y);
+    if (i === this.activeIndex) {
+      return;
+    }
+    if (MenuPrivate.isAimingAtMenu(this._childMenu, prev, curr)) {
+      this._aimTimerId = setTimeout(() => {
+        this._aimTimerId = 0;
+        this._activateItemAt(curr.x, curr.y);
+      }, AIM_DELAY);
+      return;
+    }
+    this._activateItemAt(x, y);
+  }
+
+  /**
+   * Activate the item at the given client position.
+   *
+   * This is used to update the hovered item once it is known that
+   * the mouse is not being moved into the open child menu.
+   */
+  private _activateItemAt(x: number, y: number): void {
+    let i = this._hitTestItems(x, y);
     if (i === this.activeIndex) {
       return;
     }
@@ -609,7 +1534,7 @@ class Menu extends AbstractMenu {
     if (item && item.submenu) {
       if (item === this._childItem) {
         this._cancelPendingClose();
-      } else {
+      } else if (this._openOnHover) {
         this._openChildMenu(item, this._nodes[i], true);
       }
     }
@@ -620,6 +1545,9 @@ class Menu extends AbstractMenu {
    */
   private _evtMouseLeave(event: MouseEvent): void {
     this._cancelPendingOpen();
+    this._cancelPendingAim();
+    this._stopAutoScroll();
+    this._pointer = null;
     let x = event.clientX;
     let y = event.clientY;
     let child = this._childMenu;
@@ -646,7 +1574,7 @@ class Menu extends AbstractMenu {
       hit = hitTest(menu.node, x, y);
       menu = menu._childMenu;
     }
-    if (!hit) this.close();
+    if (!hit) this.close('outside');
   }
 
   /**
@@ -660,30 +1588,128 @@ class Menu extends AbstractMenu {
     event.stopPropagation();
     let node = this._nodes[this.activeIndex];
     if (node && node.contains(event.target as HTMLElement)) {
-      this.triggerActiveItem();
+      this.triggerActiveItem('mouse');
     }
   }
 
   /**
-   * Handle the `'keydown'` event for the menu.
+   * Handle the `'pointerdown'` event for the menu.
    *
-   * This event listener is attached to the document for a popup menu.
+   * A touch press is recorded as a potential tap. The default action
+   * is prevented so that the browser does not generate compatibility
+   * mouse events, which would otherwise run the hover logic.
    */
-  private _evtKeyDown(event: KeyboardEvent): void {
-    event.stopPropagation();
-    let leaf = this.leafMenu;
-    switch (event.keyCode) {
-    case 13:  // Enter
-      event.preventDefault();
-      leaf.triggerActiveItem();
-      break;
-    case 27:  // Escape
+  private _evtPointerDown(event: PointerEvent): void {
+    if (!isTouchEvent(event) || !event.isPrimary) {
+      return;
+    }
+    event.preventDefault();
+    this._tap = { id: event.pointerId, x: event.clientX, y: event.clientY };
+  }
+
+  /**
+   * Handle the `'pointerup'` event for the menu.
+   *
+   * The recorded tap is discarded if the touch moved too far.
+   */
+  private _evtPointerUp(event: PointerEvent): void {
+    let tap = this._tap;
+    if (!tap || tap.id !== event.pointerId) {
+      return;
+    }
+    let dx = event.clientX - tap.x;
+    let dy = event.clientY - tap.y;
+    if (Math.sqrt(dx * dx + dy * dy) > TAP_TOLERANCE) {
+      this._tap = null;
+    }
+  }
+
+  /**
+   * Handle the `'click'` event for the menu.
+   *
+   * Only the click which completes a touch tap is handled. The tap is
+   * processed on click rather than on pointer up, so that the click
+   * is not delivered to the content beneath a menu which closes.
+   */
+  private _evtClick(event: MouseEvent): void {
+    if (!this._tap) {
+      return;
+    }
+    this._tap = null;
+    event.preventDefault();
+    event.stopPropagation();
+    let i = this._hitTestItems(event.clientX, event.clientY);
+    if (i === -1) {
+      return;
+    }
+    let item = this.items[i];
+    if (this._childMenu && this._childItem !== item) {
+      this._childMenu.close('navigate');
+    }
+    this._cancelPendingOpen();
+    this._cancelPendingClose();
+    this.activeIndex = i;
+    this._syncAncestors();
+    this.triggerActiveItem('mouse');
+  }
+
+  /**
+   * Handle the `'wheel'` event for the menu.
+   *
+   * The native wheel scrolling is used unless the menu is using
+   * scroll buttons, in which case the content is scrolled manually.
+   */
+  private _evtWheel(event: WheelEvent): void {
+    if (!this.scrollButtons) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    let scale = event.deltaMode === 1 ? WHEEL_LINE_HEIGHT : 1;
+    this.contentNode.scrollTop += event.deltaY * scale;
+    MenuPrivate.updateScrollButtons(this);
+  }
+
+  /**
+   * Handle the `'keydown'` event for the menu.
+   *
+   * This event listener is attached to the document for a popup menu.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    event.stopPropagation();
+    let leaf = this.leafMenu;
+    switch (event.keyCode) {
+    case 13:  // Enter
+      event.preventDefault();
+      leaf.triggerActiveItem();
+      break;
+    case 27:  // Escape
       event.preventDefault();
-      leaf.close();
+      leaf.close('escape');
+      break;
+    case 33:  // Page Up
+      event.preventDefault();
+      leaf.activatePreviousPage();
+      break;
+    case 34:  // Page Down
+      event.preventDefault();
+      leaf.activateNextPage();
+      break;
+    case 35:  // End
+      event.preventDefault();
+      leaf.activateLastItem();
+      break;
+    case 36:  // Home
+      event.preventDefault();
+      leaf.activateFirstItem();
       break;
     case 37:  // Left Arrow
       event.preventDefault();
-      if (leaf !== this) leaf.close();
+      if (leaf.hasClass(RTL_CLASS)) {
+        leaf.openActiveItem();
+      } else if (leaf !== this) {
+        leaf.close('navigate');
+      }
       break;
     case 38:  // Up Arrow
       event.preventDefault();
@@ -691,7 +1717,11 @@ class Menu extends AbstractMenu {
       break;
     case 39:  // Right Arrow
       event.preventDefault();
-      leaf.openActiveItem();
+      if (!leaf.hasClass(RTL_CLASS)) {
+        leaf.openActiveItem();
+      } else if (leaf !== this) {
+        leaf.close('navigate');
+      }
       break;
     case 40:  // Down Arrow
       event.preventDefault();
@@ -709,7 +1739,34 @@ class Menu extends AbstractMenu {
     event.preventDefault();
     event.stopPropagation();
     let key = String.fromCharCode(event.charCode);
-    this.leafMenu.activateMnemonicItem(key);
+    this.leafMenu.activateTypeAheadItem(key);
+  }
+
+  /**
+   * Handle the `commandChanged` signal from the command registry.
+   *
+   * The menu is updated if one of its items uses the command.
+   */
+  private _onCommandChanged(sender: CommandRegistry, id: string): void {
+    if (this.items.some(item => item.command === id)) {
+      this.update();
+    }
+  }
+
+  /**
+   * Emit the `triggered` signal for an item of this menu.
+   *
+   * The signal is emitted by this menu and then by each ancestor,
+   * with the path extended by the child item of each ancestor.
+   */
+  private _emitTriggered(item: MenuItem, source: TriggerSource): void {
+    let path: MenuItem[] = [];
+    let menu: Menu = this;
+    while (menu) {
+      menu.triggered.emit({ item: item, path: path.slice(), source: source });
+      menu = menu._parentMenu;
+      if (menu) path.unshift(menu._childItem);
+    }
   }
 
   /**
@@ -749,21 +1806,27 @@ class Menu extends AbstractMenu {
       return;
     }
     this._cancelPendingOpen();
-    if (delayed) {
+    if (delayed && this._openDelay > 0) {
       this._openTimerId = setTimeout(() => {
         let menu = item.submenu;
         this._openTimerId = 0;
+        menu._finishClosing();
+        menu.aboutToShow.emit(void 0);
         this._childItem = item;
         this._childMenu = menu;
+        this._updateExpanded();
         menu._parentMenu = this;
-        MenuPrivate.openSubmenu(menu, node);
-      }, OPEN_DELAY);
+        MenuPrivate.openSubmenu(menu, node, this._submenuOverlap);
+      }, this._openDelay);
     } else {
       let menu = item.submenu;
+      menu._finishClosing();
+      menu.aboutToShow.emit(void 0);
       this._childItem = item;
       this._childMenu = menu;
+      this._updateExpanded();
       menu._parentMenu = this;
-      MenuPrivate.openSubmenu(menu, node);
+      MenuPrivate.openSubmenu(menu, node, this._submenuOverlap);
     }
   }
 
@@ -780,12 +1843,118 @@ class Menu extends AbstractMenu {
       this._closeTimerId = 0;
       let childMenu = this._childMenu;
       if (childMenu) {
+        let hadFocus = MenuPrivate.hierarchyHasFocus(childMenu);
         this._childMenu = null;
         this._childItem = null;
+        this._updateExpanded();
         childMenu._parentMenu = null;
-        childMenu.close();
+        childMenu.close('navigate');
+        if (hadFocus) this._focusActiveNode();
+      }
+    }, this._closeDelay);
+  }
+
+  /**
+   * Start the close animation for the menu.
+   *
+   * The document listeners are removed immediately so the closing
+   * menu no longer handles input. The menu is detached when the
+   * animation ends or times out.
+   */
+  private _startClosing(hadFocus: boolean, parentMenu: Menu, args: IMenuClosedArgs): void {
+    document.removeEventListener('keydown', this, true);
+    document.removeEventListener('keypress', this, true);
+    document.removeEventListener('mousedown', this, true);
+    this.removeClass(OPENING_CLASS);
+    this.addClass(CLOSING_CLASS);
+    this._pendingClose = () => {
+      this._pendingClose = null;
+      clearTimeout(this._closingTimerId);
+      this._closingTimerId = 0;
+      this.removeClass(CLOSING_CLASS);
+      this.detach();
+      this._afterClose(hadFocus, parentMenu, args);
+    };
+    let duration = MenuPrivate.animationDuration(this.node);
+    if (duration === 0) {
+      this._pendingClose();
+    } else {
+      this._closingTimerId = setTimeout(this._pendingClose, duration + ANIMATION_GRACE);
+    }
+  }
+
+  /**
+   * Immediately finish the running close animation, if any.
+   */
+  private _finishClosing(): void {
+    if (this._pendingClose) this._pendingClose();
+  }
+
+  /**
+   * Complete closing the menu after it has been detached.
+   *
+   * This restores the focus and emits the `closed` signal.
+   */
+  private _afterClose(hadFocus: boolean, parentMenu: Menu, args: IMenuClosedArgs): void {
+    MenuPrivate.boundaryProperty.set(this, null);
+
+    // Restore the focus to the parent menu or the previous element.
+    let previous = this._previousFocus;
+    this._previousFocus = null;
+    if (hadFocus && parentMenu) {
+      parentMenu._focusActiveNode();
+    } else if (hadFocus && previous && document.body.contains(previous)) {
+      previous.focus();
+    }
+
+    // Notify the listeners that the menu is closed.
+    this.closed.emit(args);
+  }
+
+  /**
+   * Close the menu with the given `closed` signal arguments.
+   */
+  private _closeFor(args: IMenuClosedArgs): void {
+    this._closeArgs = args;
+    super.close();
+  }
+
+  /**
+   * Focus the active item node, or the content node if there is no
+   * active item.
+   *
+   * The content node is only focused if the focus is already held
+   * by this menu, so that the focus is not stolen by mouse hover.
+   */
+  private _focusActiveNode(): void {
+    let node = this._nodes[this.activeIndex];
+    if (node) {
+      node.focus();
+    } else if (this.node.contains(document.activeElement)) {
+      this.contentNode.focus();
+    }
+  }
+
+  /**
+   * Update the `aria-expanded` state of the submenu item nodes.
+   *
+   * The node for the item with the open child menu is marked as
+   * expanded, and the nodes for the other submenu items are not.
+   */
+  private _updateExpanded(): void {
+    let items = this.items;
+    let nodes = this._nodes;
+    for (let i = 0, n = items.length; i < n; ++i) {
+      if (!nodes[i]) {
+        continue;
       }
-    }, CLOSE_DELAY);
+      if (items[i].type === MenuItem.Submenu) {
+        let expanded = items[i] === this._childItem;
+        nodes[i].setAttribute('aria-expanded', expanded ? 'true' : 'false');
+      } else {
+        nodes[i].removeAttribute('aria-expanded');
+      }
+    }
   }
 
   /**
@@ -798,6 +1967,188 @@ class Menu extends AbstractMenu {
     }
   }
 
+  /**
+   * Find the index of the visible item node at a client position.
+   *
+   * Item nodes which are scrolled out of view are not hit, even if
+   * the position lies over a scroll button.
+   */
+  private _hitTestItems(x: number, y: number): number {
+    if (!hitTest(MenuPrivate.scrollNode(this), x, y)) {
+      return -1;
+    }
+    return arrays.findIndex(this._nodes, node => !!node && hitTest(node, x, y));
+  }
+
+  /**
+   * Release all item nodes and reset the virtual window.
+   */
+  private _resetNodes(): void {
+    let content = this.contentNode;
+    while (content.firstChild) {
+      content.removeChild(content.firstChild);
+    }
+    content.style.paddingTop = '';
+    content.style.paddingBottom = '';
+    this._nodes.length = 0;
+    this._pool.length = 0;
+    this._itemHeight = 0;
+    this._first = 0;
+    this._last = 0;
+  }
+
+  /**
+   * Render the item nodes for the visible window of a virtual menu.
+   *
+   * Nodes which leave the window are recycled, and nodes which enter
+   * the window are updated from their items. If `force` is `true`,
+   * the nodes which remain in the window are updated as well.
+   *
+   * The space of the unrendered items is reserved by padding on the
+   * content node, so that the native scroll extent stays correct.
+   */
+  private _renderWindow(force: boolean): void {
+    // Fetch common variables.
+    let items = this.items;
+    let nodes = this._nodes;
+    let n = items.length;
+
+    // Measure the item height using the first non-separator item.
+    if (this._itemHeight === 0 && n > 0) {
+      let k = arrays.findIndex(items, item => item.type !== MenuItem.Separator);
+      k = Math.max(0, k);
+      this._renderRange(Math.min(k, this._first), Math.max(k + 1, this._last), force);
+      this._itemHeight = nodes[k].offsetHeight;
+      force = false;
+    }
+
+    // Compute the window of items which intersects the viewport.
+    let height = this._itemHeight || 1;
+    let scroller = MenuPrivate.scrollNode(this);
+    let count = Math.ceil(document.documentElement.clientHeight / height);
+    let first = Math.floor(scroller.scrollTop / height) - VIRTUAL_OVERSCAN;
+    first = Math.max(0, Math.min(first, n - count - VIRTUAL_OVERSCAN));
+    let last = Math.min(n, first + count + 2 * VIRTUAL_OVERSCAN);
+
+    // Render the window and reserve the space for the other items.
+    this._renderRange(first, last, force);
+    let style = this.contentNode.style;
+    style.paddingTop = `${first * height}px`;
+    style.paddingBottom = `${(n - last) * height}px`;
+  }
+
+  /**
+   * Render the item nodes for the given range of a virtual menu.
+   */
+  private _renderRange(first: number, last: number, force: boolean): void {
+    // Fetch common variables.
+    let items = this.items;
+    let nodes = this._nodes;
+    let pool = this._pool;
+    let content = this.contentNode;
+    let constructor = this.constructor as typeof Menu;
+
+    // Recycle the nodes which are outside of the range.
+    for (let i = this._first; i < this._last; ++i) {
+      if ((i < first || i >= last) && nodes[i]) {
+        content.removeChild(nodes[i]);
+        pool.push(nodes[i]);
+        nodes[i] = null;
+      }
+    }
+
+    // Create or update the nodes in the range, in document order.
+    let ref: HTMLElement = null;
+    for (let i = last - 1; i >= first; --i) {
+      let node = nodes[i];
+      if (!node || force) {
+        node = node || pool.pop() || constructor.createItemNode();
+        constructor.updateItemNode(node, items[i]);
+        node.tabIndex = -1;
+        nodes[i] = node;
+      }
+      if (node.parentNode !== content || node.nextSibling !== ref) {
+        content.insertBefore(node, ref);
+      }
+      ref = node;
+    }
+    this._first = first;
+    this._last = last;
+
+    // Restore the active node class and tab index.
+    let active = nodes[this.activeIndex];
+    if (active) {
+      active.classList.add(ACTIVE_CLASS);
+      active.tabIndex = 0;
+    }
+
+    // Restore the expanded state and hide the useless item nodes.
+    this._updateExpanded();
+    MenuPrivate.hideUselessItems(nodes, items);
+  }
+
+  /**
+   * Scroll a virtual menu so the item at the given index is rendered.
+   */
+  private _scrollToIndex(index: number): void {
+    let height = this._itemHeight;
+    let scroller = MenuPrivate.scrollNode(this);
+    let top = index * height;
+    if (top < scroller.scrollTop) {
+      scroller.scrollTop = top;
+    } else if (top + height > scroller.scrollTop + scroller.clientHeight) {
+      scroller.scrollTop = top + height - scroller.clientHeight;
+    }
+    this._renderWindow(false);
+  }
+
+  /**
+   * Start auto-scrolling the menu in the given direction.
+   *
+   * A positive direction scrolls down and a negative direction
+   * scrolls up. Scrolling stops when the end is reached.
+   */
+  private _startAutoScroll(direction: number): void {
+    if (this._scrollDirection === direction) {
+      return;
+    }
+    this._stopAutoScroll();
+    this._scrollDirection = direction;
+    let step = () => {
+      let node = this.contentNode;
+      let before = node.scrollTop;
+      node.scrollTop += direction * SCROLL_STEP;
+      MenuPrivate.updateScrollButtons(this);
+      if (node.scrollTop === before) {
+        this._stopAutoScroll();
+      } else {
+        this._scrollTimerId = setTimeout(step, SCROLL_INTERVAL);
+      }
+    };
+    this._scrollTimerId = setTimeout(step, SCROLL_INTERVAL);
+  }
+
+  /**
+   * Stop any pending auto-scroll task.
+   */
+  private _stopAutoScroll(): void {
+    if (this._scrollTimerId) {
+      clearTimeout(this._scrollTimerId);
+      this._scrollTimerId = 0;
+    }
+    this._scrollDirection = 0;
+  }
+
+  /**
+   * Cancel any pending hover recheck task.
+   */
+  private _cancelPendingAim(): void {
+    if (this._aimTimerId) {
+      clearTimeout(this._aimTimerId);
+      this._aimTimerId = 0;
+    }
+  }
+
   /**
    * Cancel any pending child menu close task.
    */
@@ -808,11 +2159,34 @@ class Menu extends AbstractMenu {
     }
   }
 
+  private _openDelay = OPEN_DELAY;
+  private _closeDelay = CLOSE_DELAY;
+  private _submenuOverlap = SUBMENU_OVERLAP;
+  private _openOnHover = true;
+  private _boundary: MenuBoundary = null;
+  private _direction: MenuDirection = 'auto';
+  private _animated = false;
+  private _keepOpen = false;
+  private _mnemonicActive = false;
+  private _closingTimerId = 0;
+  private _pendingClose: () => void = null;
+  private _closeArgs: IMenuClosedArgs = null;
   private _openTimerId = 0;
   private _closeTimerId = 0;
+  private _aimTimerId = 0;
+  private _scrollTimerId = 0;
+  private _scrollDirection = 0;
+  private _pointer: MenuPrivate.IPointerSample = null;
+  private _tap: MenuPrivate.ITapSample = null;
   private _parentMenu: Menu = null;
   private _childMenu: Menu = null;
   private _childItem: MenuItem = null;
+  private _previousFocus: HTMLElement = null;
+  private _virtualized = false;
+  private _itemHeight = 0;
+  private _first = 0;
+  private _last = 0;
+  private _pool: HTMLElement[] = [];
   private _nodes: HTMLElement[] = [];
 }
 
@@ -825,7 +2199,254 @@ namespace MenuPrivate {
    * A signal emitted when the menu is closed.
    */
   export
-  const closedSignal = new Signal<Menu, void>();
+  const closedSignal = new Signal<Menu, IMenuClosedArgs>();
+
+  /**
+   * A signal emitted just before the menu is shown.
+   */
+  export
+  const aboutToShowSignal = new Signal<Menu, void>();
+
+  /**
+   * The property descriptor for the boundary used by an open menu.
+   *
+   * This is the menu's own boundary, or the boundary inherited from
+   * its parent menu or menu bar.
+   */
+  export
+  const boundaryProperty = new Property<Menu, MenuBoundary>({
+    name: 'boundary',
+    value: null,
+  });
+
+  /**
+   * A sample of the mouse pointer position.
+   */
+  export
+  interface IPointerSample {
+    /**
+     * The client X coordinate of the pointer.
+     */
+    x: number;
+
+    /**
+     * The client Y coordinate of the pointer.
+     */
+    y: number;
+
+    /**
+     * The timestamp of the sample in ms.
+     */
+    time: number;
+  }
+
+  /**
+   * The initial state of a pending touch tap.
+   */
+  export
+  interface ITapSample {
+    /**
+     * The id of the touch pointer.
+     */
+    id: number;
+
+    /**
+     * The client X coordinate of the press.
+     */
+    x: number;
+
+    /**
+     * The client Y coordinate of the press.
+     */
+    y: number;
+  }
+
+  /**
+   * Test whether the pointer is being moved into an open menu.
+   *
+   * This is the "menu aim" test. It returns `true` if the current
+   * pointer position lies within the triangle formed by the previous
+   * position and the near edge of the menu, and if the pointer is
+   * moving fast enough to be considered deliberate.
+   */
+  export
+  function isAimingAtMenu(menu: Menu, prev: IPointerSample, curr: IPointerSample): boolean {
+    if (!menu || !menu.isAttached || !prev) {
+      return false;
+    }
+    let dt = curr.time - prev.time;
+    let dx = curr.x - prev.x;
+    let dy = curr.y - prev.y;
+    if (dt <= 0 || Math.sqrt(dx * dx + dy * dy) / dt < AIM_MIN_SPEED) {
+      return false;
+    }
+    let rect = menu.node.getBoundingClientRect();
+    let edge = prev.x <= rect.left ? rect.left : rect.right;
+    if ((edge - prev.x) * dx <= 0) {
+      return false;
+    }
+    let top = { x: edge, y: rect.top - AIM_TOLERANCE };
+    let bottom = { x: edge, y: rect.bottom + AIM_TOLERANCE };
+    return pointInTriangle(curr, prev, top, bottom);
+  }
+
+  /**
+   * A type alias for a simple point.
+   */
+  type Point = { x: number, y: number };
+
+  /**
+   * Test whether a point lies within the triangle `abc`.
+   */
+  function pointInTriangle(p: Point, a: Point, b: Point, c: Point): boolean {
+    let d1 = cross(p, a, b);
+    let d2 = cross(p, b, c);
+    let d3 = cross(p, c, a);
+    let neg = d1 < 0 || d2 < 0 || d3 < 0;
+    let pos = d1 > 0 || d2 > 0 || d3 > 0;
+    return !(neg && pos);
+  }
+
+  /**
+   * Compute the signed area spanned by a point and a triangle edge.
+   */
+  function cross(p: Point, a: Point, b: Point): number {
+    return (p.x - b.x) * (a.y - b.y) - (a.x - b.x) * (p.y - b.y);
+  }
+
+  /**
+   * Get the node which scrolls the content of a menu.
+   *
+   * This is the content node when the menu uses scroll buttons, and
+   * the menu node otherwise.
+   */
+  export
+  function scrollNode(menu: Menu): HTMLElement {
+    return menu.scrollButtons ? menu.contentNode : menu.node;
+  }
+
+  /**
+   * Scroll an item node of a menu into view, if needed.
+   */
+  export
+  function scrollIntoView(menu: Menu, item: HTMLElement): void {
+    let node = scrollNode(menu);
+    let box = node.getBoundingClientRect();
+    let rect = item.getBoundingClientRect();
+    let top = box.top + node.clientTop;
+    let bottom = top + node.clientHeight;
+    if (rect.top < top) {
+      node.scrollTop -= top - rect.top;
+    } else if (rect.bottom > bottom) {
+      node.scrollTop += rect.bottom - bottom;
+    }
+    updateScrollButtons(menu);
+  }
+
+  /**
+   * Hit test the scroll buttons of a menu.
+   *
+   * Returns `-1` for the up button, `1` for the down button, or `0`
+   * if no visible scroll button is hit.
+   */
+  export
+  function hitTestScrollButtons(menu: Menu, x: number, y: number): number {
+    if (!menu.scrollButtons || !menu.hasClass(OVERFLOW_CLASS)) {
+      return 0;
+    }
+    if (hitTest(scrollButton(menu, SCROLL_UP_CLASS), x, y)) {
+      return -1;
+    }
+    if (hitTest(scrollButton(menu, SCROLL_DOWN_CLASS), x, y)) {
+      return 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Update the disabled state of the scroll buttons of a menu.
+   *
+   * A button is disabled when the content cannot scroll further in
+   * the button's direction.
+   */
+  export
+  function updateScrollButtons(menu: Menu): void {
+    let node = menu.contentNode;
+    let atTop = node.scrollTop <= 0;
+    let atBottom = node.scrollTop + node.clientHeight >= node.scrollHeight;
+    setDisabled(scrollButton(menu, SCROLL_UP_CLASS), atTop);
+    setDisabled(scrollButton(menu, SCROLL_DOWN_CLASS), atBottom);
+  }
+
+  /**
+   * Add or remove the disabled class for a node.
+   */
+  function setDisabled(node: HTMLElement, disabled: boolean): void {
+    if (disabled) {
+      node.classList.add(DISABLED_CLASS);
+    } else {
+      node.classList.remove(DISABLED_CLASS);
+    }
+  }
+
+  /**
+   * Get the scroll button node of a menu with the given class name.
+   */
+  function scrollButton(menu: Menu, className: string): HTMLElement {
+    return menu.node.getElementsByClassName(className)[0] as HTMLElement;
+  }
+
+  /**
+   * Initialize a menu from an options object.
+   */
+  export
+  function initFrom(menu: Menu, options: IMenuOptions): void {
+    if (options.openDelay !== void 0) {
+      menu.openDelay = options.openDelay;
+    }
+    if (options.closeDelay !== void 0) {
+      menu.closeDelay = options.closeDelay;
+    }
+    if (options.submenuOverlap !== void 0) {
+      menu.submenuOverlap = options.submenuOverlap;
+    }
+    if (options.openOnHover !== void 0) {
+      menu.openOnHover = options.openOnHover;
+    }
+    if (options.scrollButtons !== void 0) {
+      menu.scrollButtons = options.scrollButtons;
+    }
+    if (options.virtualized !== void 0) {
+      menu.virtualized = options.virtualized;
+    }
+    if (options.boundary !== void 0) {
+      menu.boundary = options.boundary;
+    }
+    if (options.direction !== void 0) {
+      menu.direction = options.direction;
+    }
+    if (options.animated !== void 0) {
+      menu.animated = options.animated;
+    }
+    if (options.keepOpen !== void 0) {
+      menu.keepOpen = options.keepOpen;
+    }
+  }
+
+  /**
+   * Test whether a menu or any of its open child menus has the focus.
+   */
+  export
+  function hierarchyHasFocus(menu: Menu): boolean {
+    let focus = document.activeElement;
+    while (menu) {
+      if (menu.node.contains(focus)) {
+        return true;
+      }
+      menu = menu.childMenu;
+    }
+    return false;
+  }
 
   /**
    * Create the class name for a menu item.
@@ -848,18 +2469,72 @@ namespace MenuPrivate {
     }
     if (item.type === MenuItem.Check) {
       name += ' ' + CHECK_TYPE_CLASS;
-      if (item.checked) {
+      if (isItemChecked(item)) {
         name += ' ' + CHECKED_CLASS;
       }
     }
-    if (item.disabled || !item.handler) {
+    if (item.type === MenuItem.Radio) {
+      name += ' ' + RADIO_TYPE_CLASS;
+      if (isItemChecked(item)) {
+        name += ' ' + CHECKED_CLASS;
+      }
+    }
+    if (!isItemEnabled(item)) {
       name += ' ' + DISABLED_CLASS;
     }
     return name;
   }
 
+  /**
+   * Update the ARIA role and state attributes for a menu item node.
+   */
+  export
+  function updateItemAria(node: HTMLElement, item: MenuItem): void {
+    let role = 'menuitem';
+    let checked = '';
+    let popup = '';
+    let disabled = '';
+    switch (item.type) {
+    case MenuItem.Separator:
+      role = 'separator';
+      break;
+    case MenuItem.Check:
+      role = 'menuitemcheckbox';
+      checked = isItemChecked(item) ? 'true' : 'false';
+      break;
+    case MenuItem.Radio:
+      role = 'menuitemradio';
+      checked = isItemChecked(item) ? 'true' : 'false';
+      break;
+    case MenuItem.Submenu:
+      popup = 'true';
+      break;
+    }
+    if (item.type === MenuItem.Submenu) {
+      disabled = (item.disabled || !item.submenu) ? 'true' : '';
+    } else if (item.type !== MenuItem.Separator) {
+      disabled = isItemEnabled(item) ? '' : 'true';
+    }
+    node.setAttribute('role', role);
+    setAttribute(node, 'aria-checked', checked);
+    setAttribute(node, 'aria-haspopup', popup);
+    setAttribute(node, 'aria-disabled', disabled);
+  }
+
+  /**
+   * Test whether a checkable item is checked.
+   */
+  function isItemChecked(item: MenuItem): boolean {
+    if (item.command) {
+      return commands.isChecked(item.command);
+    }
+    return item.checked;
+  }
+
   /**
    * Hide the irrelevant item nodes for a menu bar.
+   *
+   * Item nodes which are not rendered are skipped.
    */
   export
   function hideUselessItems(nodes: HTMLElement[], items: MenuItem[]): void {
@@ -869,7 +2544,7 @@ namespace MenuPrivate {
       if (items[k1].type !== MenuItem.Separator) {
         break;
       }
-      nodes[k1].classList.add(HIDDEN_CLASS);
+      hideNode(nodes[k1]);
     }
 
     // Hide the trailing separators.
@@ -878,7 +2553,7 @@ namespace MenuPrivate {
       if (items[k2].type !== MenuItem.Separator) {
         break;
       }
-      nodes[k2].classList.add(HIDDEN_CLASS);
+      hideNode(nodes[k2]);
     }
 
     // Hide the remaining consecutive separators.
@@ -887,22 +2562,35 @@ namespace MenuPrivate {
       if (items[k1].type !== MenuItem.Separator) {
         hide = false;
       } else if (hide) {
-        nodes[k1].classList.add(HIDDEN_CLASS);
+        hideNode(nodes[k1]);
       } else {
         hide = true;
       }
     }
   }
 
+  /**
+   * Add the hidden class to an item node, if it is rendered.
+   */
+  function hideNode(node: HTMLElement): void {
+    if (node) node.classList.add(HIDDEN_CLASS);
+  }
+
   /**
    * Open the menu as a root menu at the target location.
    */
   export
-  function openRootMenu(menu: Menu, x: number, y: number, forceX: boolean, forceY: boolean): void {
+  function openRootMenu(
+    menu: Menu, x: number, y: number, forceX: boolean, forceY: boolean,
+    direction: MenuDirection = 'auto'
+  ): void {
     sendMessage(menu, Widget.MsgUpdateRequest);
-    let rect = clientViewportRect();
-    let size = mountAndMeasure(menu, rect.height - (forceY ? y : 0));
-    if (!forceX && (x + size.width > rect.x + rect.width)) {
+    updateDirection(menu, document.activeElement, direction);
+    let rect = boundaryRect(menu);
+    let size = mountAndMeasure(menu, forceY ? rect.y + rect.height - y : rect.height);
+    if (!forceX && menu.hasClass(RTL_CLASS)) {
+      x = Math.max(rect.x, x - size.width);
+    } else if (!forceX && (x + size.width > rect.x + rect.width)) {
       x = rect.x + rect.width - size.width;
     }
     if (!forceY && (y + size.height > rect.y + rect.height)) {
@@ -915,20 +2603,155 @@ namespace MenuPrivate {
     showMenu(menu, x, y);
   }
 
+  /**
+   * Open the menu as a root menu placed against an anchor element.
+   */
+  export
+  function openAnchoredMenu(menu: Menu, anchor: HTMLElement, options: IPopupAtOptions): void {
+    sendMessage(menu, Widget.MsgUpdateRequest);
+    updateDirection(menu, anchor);
+    let rect = boundaryRect(menu);
+    let size = mountAndMeasure(menu, rect.height);
+    let anchorRect = anchor.getBoundingClientRect();
+    let parts = (options.placement || 'bottom-start').split('-');
+    let side = parts[0];
+    let align = parts[1] || '';
+    if (menu.hasClass(RTL_CLASS) && (side === 'top' || side === 'bottom')) {
+      align = MIRRORED_ALIGNS[align];
+    }
+    let offset = options.offset || 0;
+    let pos = placeMenu([side, align], offset, anchorRect, size);
+    if (options.flip !== false && !fitsSide(side, pos, size, rect)) {
+      let opposite = OPPOSITE_SIDES[side];
+      let other = placeMenu([opposite, align], offset, anchorRect, size);
+      let space = availableHeight(side, offset, anchorRect, rect);
+      let otherSpace = availableHeight(opposite, offset, anchorRect, rect);
+      if (fitsSide(opposite, other, size, rect) || otherSpace > space) {
+        pos = other;
+        side = opposite;
+      }
+    }
+    let maxHeight = availableHeight(side, offset, anchorRect, rect);
+    if (size.height > maxHeight) {
+      size = measureMenu(menu, maxHeight);
+      pos = placeMenu([side, align], offset, anchorRect, size);
+    }
+    if (options.shift !== false) {
+      let vertical = side === 'top' || side === 'bottom';
+      if (vertical) {
+        pos.x = Math.max(rect.x, Math.min(pos.x, rect.x + rect.width - size.width));
+      } else {
+        pos.y = Math.max(rect.y, Math.min(pos.y, rect.y + rect.height - size.height));
+      }
+    }
+    showMenu(menu, pos.x, pos.y);
+  }
+
+  /**
+   * A mapping of alignment to the mirrored alignment.
+   */
+  const MIRRORED_ALIGNS: { [align: string]: string } = {
+    '': '',
+    start: 'end',
+    end: 'start',
+  };
+
+  /**
+   * A mapping of anchor side to the opposite side.
+   */
+  const OPPOSITE_SIDES: { [side: string]: string } = {
+    top: 'bottom',
+    bottom: 'top',
+    left: 'right',
+    right: 'left',
+  };
+
+  /**
+   * Compute the position of a menu placed against an anchor rect.
+   *
+   * The placement is given as the pair of anchor side and alignment.
+   */
+  function placeMenu(placement: string[], offset: number, anchor: ClientRect, size: Size): Point {
+    let side = placement[0];
+    let align = placement[1];
+    let x: number;
+    let y: number;
+    if (side === 'top' || side === 'bottom') {
+      y = side === 'top' ? anchor.top - offset - size.height : anchor.bottom + offset;
+      if (align === 'start') {
+        x = anchor.left;
+      } else if (align === 'end') {
+        x = anchor.right - size.width;
+      } else {
+        x = anchor.left + (anchor.width - size.width) / 2;
+      }
+    } else {
+      x = side === 'left' ? anchor.left - offset - size.width : anchor.right + offset;
+      if (align === 'start') {
+        y = anchor.top;
+      } else if (align === 'end') {
+        y = anchor.bottom - size.height;
+      } else {
+        y = anchor.top + (anchor.height - size.height) / 2;
+      }
+    }
+    return { x: x, y: y };
+  }
+
+  /**
+   * Compute the height available to a menu on an anchor side.
+   *
+   * A menu above or below the anchor is limited to the space between
+   * the anchor and the edge of the rect. A menu beside the anchor may
+   * use the full height of the rect.
+   */
+  function availableHeight(side: string, offset: number, anchor: ClientRect, rect: Rect): number {
+    switch (side) {
+    case 'top':
+      return Math.max(0, anchor.top - offset - rect.y);
+    case 'bottom':
+      return Math.max(0, rect.y + rect.height - anchor.bottom - offset);
+    default:
+      return rect.height;
+    }
+  }
+
+  /**
+   * Test whether a placed menu fits within a rect on its anchor side.
+   */
+  function fitsSide(side: string, pos: Point, size: Size, rect: Rect): boolean {
+    switch (side) {
+    case 'top':
+      return pos.y >= rect.y;
+    case 'bottom':
+      return pos.y + size.height <= rect.y + rect.height;
+    case 'left':
+      return pos.x >= rect.x;
+    default:
+      return pos.x + size.width <= rect.x + rect.width;
+    }
+  }
+
   /**
    * Open a the menu as a submenu using the item node for positioning.
    */
   export
-  function openSubmenu(menu: Menu, item: HTMLElement): void {
+  function openSubmenu(menu: Menu, item: HTMLElement, overlap: number): void {
+    let inherited = boundaryProperty.get(menu.parentMenu);
+    boundaryProperty.set(menu, menu.boundary || inherited);
     sendMessage(menu, Widget.MsgUpdateRequest);
-    let rect = clientViewportRect();
+    updateDirection(menu, item);
+    let rect = boundaryRect(menu);
     let size = mountAndMeasure(menu, rect.height);
     let box = boxSizing(menu.node);
     let itemRect = item.getBoundingClientRect();
-    let x = itemRect.right - SUBMENU_OVERLAP;
+    let rtl = menu.hasClass(RTL_CLASS);
+    let x = rtl ? itemRect.left + overlap - size.width : itemRect.right - overlap;
     let y = itemRect.top - box.borderTop - box.paddingTop;
-    if (x + size.width > rect.x + rect.width) {
-      x = itemRect.left + SUBMENU_OVERLAP - size.width;
+    if (rtl && x < rect.x) {
+      x = itemRect.right - overlap;
+    } else if (!rtl && x + size.width > rect.x + rect.width) {
+      x = itemRect.left + overlap - size.width;
     }
     if (y + size.height > rect.y + rect.height) {
       y = itemRect.bottom + box.borderBottom + box.paddingBottom - size.height;
@@ -936,6 +2759,17 @@ namespace MenuPrivate {
     showMenu(menu, x, y);
   }
 
+  /**
+   * Set an attribute on a node, or remove it if the value is empty.
+   */
+  function setAttribute(node: HTMLElement, name: string, value: string): void {
+    if (value) {
+      node.setAttribute(name, value);
+    } else {
+      node.removeAttribute(name);
+    }
+  }
+
   /**
    * A type alias for a simple size.
    */
@@ -958,6 +2792,61 @@ namespace MenuPrivate {
     return { x: x, y: y, width: width, height: height };
   }
 
+  /**
+   * Update the right-to-left class of a menu which is being opened.
+   *
+   * An `'auto'` menu uses the fallback direction if it is not also
+   * `'auto'`, then the direction of its parent menu, or else the
+   * computed direction of the reference element.
+   */
+  function updateDirection(menu: Menu, ref: Element, fallback: MenuDirection = 'auto'): void {
+    let rtl: boolean;
+    if (menu.direction !== 'auto') {
+      rtl = menu.direction === 'rtl';
+    } else if (fallback !== 'auto') {
+      rtl = fallback === 'rtl';
+    } else if (menu.parentMenu) {
+      rtl = menu.parentMenu.hasClass(RTL_CLASS);
+    } else {
+      let style = window.getComputedStyle(ref || document.body);
+      rtl = style.direction === 'rtl';
+    }
+    menu.toggleClass(RTL_CLASS, rtl);
+  }
+
+  /**
+   * Get the rect in page coordinates within which to place a menu.
+   *
+   * This is the visible part of the menu's boundary, or the viewport
+   * if the menu does not have a boundary.
+   */
+  function boundaryRect(menu: Menu): Rect {
+    let view = clientViewportRect();
+    let boundary = boundaryProperty.get(menu);
+    if (!boundary) {
+      return view;
+    }
+    let box: IMenuBoundaryRect;
+    if (isElement(boundary)) {
+      let r = boundary.getBoundingClientRect();
+      box = { x: r.left, y: r.top, width: r.width, height: r.height };
+    } else {
+      box = boundary;
+    }
+    let x1 = Math.max(view.x, view.x + box.x);
+    let y1 = Math.max(view.y, view.y + box.y);
+    let x2 = Math.min(view.x + view.width, view.x + box.x + box.width);
+    let y2 = Math.min(view.y + view.height, view.y + box.y + box.height);
+    return { x: x1, y: y1, width: Math.max(0, x2 - x1), height: Math.max(0, y2 - y1) };
+  }
+
+  /**
+   * Test whether a menu boundary is an element.
+   */
+  function isElement(boundary: MenuBoundary): boundary is HTMLElement {
+    return (boundary as HTMLElement).nodeType === 1;
+  }
+
   /**
    * Mount the menu as hidden and compute its optimal size.
    *
@@ -965,29 +2854,107 @@ namespace MenuPrivate {
    * by the scrollbar width to prevent clipping the contents of the menu.
    */
   function mountAndMeasure(menu: Menu, maxHeight: number): Size {
-    let node = menu.node;
-    let style = node.style;
+    let style = menu.node.style;
     style.top = '';
     style.left = '';
-    style.width = '';
     style.height = '';
     style.visibility = 'hidden';
+    menu.toggleClass(TOUCH_CLASS, isTouchInput());
     style.maxHeight = `${maxHeight}px`;
     menu.attach(document.body);
-    if (node.scrollHeight > maxHeight) {
+    return measureMenu(menu, maxHeight);
+  }
+
+  /**
+   * Compute the optimal size of a mounted menu for a maximum height.
+   *
+   * This allows a mounted menu to be measured again once the space
+   * available for it is known.
+   */
+  function measureMenu(menu: Menu, maxHeight: number): Size {
+    let node = menu.node;
+    let style = node.style;
+    style.width = '';
+    style.maxHeight = `${maxHeight}px`;
+    menu.removeClass(OVERFLOW_CLASS);
+    if (menu.scrollButtons) {
+      // The content node shrinks to fit and clips its own overflow.
+      let content = menu.contentNode;
+      if (content.scrollHeight > content.clientHeight) {
+        menu.addClass(OVERFLOW_CLASS);
+      }
+    } else if (node.scrollHeight > maxHeight) {
       style.width = `${2 * node.offsetWidth - node.clientWidth}px`;
     }
+    if (menu.virtualized && !style.width) {
+      style.width = `${node.offsetWidth}px`;
+    }
+    scrollNode(menu).scrollTop = 0;
+    updateScrollButtons(menu);
     let rect = node.getBoundingClientRect();
     return { width: rect.width, height: rect.height };
   }
 
   /**
    * Show the menu at the specified position.
+   *
+   * For an animated menu, the opening class is applied for the first
+   * frame. The style is flushed so the class takes effect before it
+   * is removed, allowing the menu to transition from that state.
    */
   function showMenu(menu: Menu, x: number, y: number): void {
     let style = menu.node.style;
     style.top = `${Math.max(0, y)}px`;
     style.left = `${Math.max(0, x)}px`;
+    if (menu.animated && !prefersReducedMotion()) {
+      menu.addClass(OPENING_CLASS);
+      menu.node.getBoundingClientRect();
+      requestAnimationFrame(() => { menu.removeClass(OPENING_CLASS); });
+    }
     style.visibility = '';
   }
+
+  /**
+   * Test whether the user prefers reduced motion.
+   */
+  export
+  function prefersReducedMotion(): boolean {
+    let query = '(prefers-reduced-motion: reduce)';
+    return !!window.matchMedia && window.matchMedia(query).matches;
+  }
+
+  /**
+   * Get the total ms duration of the transitions and animations of a
+   * node, including their delays.
+   */
+  export
+  function animationDuration(node: HTMLElement): number {
+    let style = window.getComputedStyle(node);
+    let transition = maxTime(style.transitionDuration, style.transitionDelay);
+    let animation = maxTime(style.animationDuration, style.animationDelay);
+    return Math.max(transition, animation);
+  }
+
+  /**
+   * Get the maximum of a list of CSS durations plus their delays.
+   */
+  function maxTime(durations: string, delays: string): number {
+    let d = parseTimes(durations);
+    let l = parseTimes(delays);
+    let result = 0;
+    for (let i = 0; i < d.length; ++i) {
+      result = Math.max(result, d[i] + (l[i % l.length] || 0));
+    }
+    return result;
+  }
+
+  /**
+   * Parse a comma separated list of CSS times into ms.
+   */
+  function parseTimes(value: string): number[] {
+    return (value || '').split(',').map(part => {
+      let time = parseFloat(part) || 0;
+      return part.indexOf('ms') !== -1 ? time : time * 1000;
+    });
+  }
 }
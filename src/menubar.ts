@@ -19,17 +19,29 @@ import {
 } from 'phosphor-messaging';
 
 import {
-  AbstractMenu
+  AbstractMenu, ITriggeredArgs
 } from './base';
 
 import {
-  Menu
+  CommandRegistry, commands
+} from './commands';
+
+import {
+  Menu, MenuBoundary, MenuCloseReason, MenuDirection
 } from './menu';
 
 import {
   MenuItem
 } from './menuitem';
 
+import {
+  itemIcon, itemText
+} from './private';
+
+import {
+  isKeyboardInput, isTouchEvent, trackPointerInput
+} from './touch';
+
 
 /**
  * The class name added to a menu bar widget.
@@ -81,6 +93,37 @@ const DISABLED_CLASS = 'p-mod-disabled';
  */
 const HIDDEN_CLASS = 'p-mod-hidden';
 
+/**
+ * The class name added to a menu bar used with touch input.
+ */
+const TOUCH_CLASS = 'p-mod-touch';
+
+/**
+ * The class name added to a right-to-left menu bar.
+ */
+const RTL_CLASS = 'p-mod-rtl';
+
+
+/**
+ * An options object for initializing a menu bar.
+ */
+export
+interface IMenuBarOptions {
+  /**
+   * The region within which the menus of the menu bar are placed.
+   *
+   * When this is `null`, the menus are placed within the viewport.
+   */
+  boundary?: MenuBoundary;
+
+  /**
+   * The layout direction of the menu bar.
+   *
+   * The default is `'auto'`.
+   */
+  direction?: MenuDirection;
+}
+
 
 /**
  * A widget which displays menu items as a menu bar.
@@ -94,6 +137,7 @@ class MenuBar extends AbstractMenu {
     let node = document.createElement('div');
     let content = document.createElement('ul');
     content.className = CONTENT_CLASS;
+    content.setAttribute('role', 'menubar');
     node.appendChild(content);
     return node;
   }
@@ -111,8 +155,10 @@ class MenuBar extends AbstractMenu {
     let icon = document.createElement('span');
     let text = document.createElement('span');
     node.className = ITEM_CLASS;
+    node.tabIndex = -1;
     icon.className = ICON_CLASS;
     text.className = TEXT_CLASS;
+    icon.setAttribute('aria-hidden', 'true');
     node.appendChild(icon);
     node.appendChild(text);
     return node;
@@ -137,8 +183,10 @@ class MenuBar extends AbstractMenu {
     let icon = node.firstChild as HTMLElement;
     let text = node.lastChild as HTMLElement;
     node.className = MenuBarPrivate.createItemClass(item);
-    icon.className = ICON_CLASS + (item.icon ? ' ' + item.icon : '');
-    text.textContent = sep ? '' : item.text.replace(/&/g, '');
+    MenuBarPrivate.updateItemAria(node, item);
+    let iconClass = itemIcon(item);
+    icon.className = ICON_CLASS + (iconClass ? ' ' + iconClass : '');
+    text.textContent = sep ? '' : itemText(item).replace(/&/g, '');
   }
 
   /**
@@ -146,13 +194,17 @@ class MenuBar extends AbstractMenu {
    *
    * @param items - The menu items to initialize the menu bar.
    *
+   * @param options - Optional options to initialize the menu bar.
+   *
    * #### Notes
    * Subclasses should not pass menu items to `super`. The subclass
    * should set its own items after it has been fully initialized.
    */
-  constructor(items?: MenuItem[]) {
+  constructor(items?: MenuItem[], options?: IMenuBarOptions) {
     super();
     this.addClass(MENU_BAR_CLASS);
+    trackPointerInput();
+    if (options) MenuBarPrivate.initFrom(this, options);
     if (items) this.items = items;
   }
 
@@ -164,6 +216,51 @@ class MenuBar extends AbstractMenu {
     super.dispose();
   }
 
+  /**
+   * Get the region within which the menus of the menu bar are placed.
+   */
+  get boundary(): MenuBoundary {
+    return this._boundary;
+  }
+
+  /**
+   * Set the region within which the menus of the menu bar are placed.
+   *
+   * #### Notes
+   * The boundary is used by the menus which do not have a boundary of
+   * their own, and by their submenus. A `null` boundary uses the
+   * viewport.
+   *
+   * Changing this value takes effect the next time a menu opens.
+   */
+  set boundary(value: MenuBoundary) {
+    this._boundary = value || null;
+  }
+
+  /**
+   * Get the layout direction of the menu bar.
+   */
+  get direction(): MenuDirection {
+    return this._direction;
+  }
+
+  /**
+   * Set the layout direction of the menu bar.
+   *
+   * #### Notes
+   * An `'auto'` menu bar uses its `dir` attribute, or else the
+   * computed direction of its parent node.
+   *
+   * A right-to-left menu bar has the `p-mod-rtl` class, swaps the
+   * meaning of the left and right arrow keys, and aligns its menus
+   * with the right edge of their items. Its `'auto'` menus inherit
+   * the right-to-left direction.
+   */
+  set direction(value: MenuDirection) {
+    this._direction = value;
+    if (this.isAttached) this._updateDirection();
+  }
+
   /**
    * Get the child menu of the menu bar.
    *
@@ -226,6 +323,9 @@ class MenuBar extends AbstractMenu {
    */
   handleEvent(event: Event): void {
     switch (event.type) {
+    case 'pointerdown':
+      this._evtPointerDown(event as PointerEvent);
+      break;
     case 'mousedown':
       this._evtMouseDown(event as MouseEvent);
       break;
@@ -316,8 +416,16 @@ class MenuBar extends AbstractMenu {
   protected onActiveIndexChanged(oldIndex: number, newIndex: number): void {
     let oldNode = this._nodes[oldIndex];
     let newNode = this._nodes[newIndex];
-    if (oldNode) oldNode.classList.remove(ACTIVE_CLASS);
-    if (newNode) newNode.classList.add(ACTIVE_CLASS);
+    if (oldNode) {
+      oldNode.classList.remove(ACTIVE_CLASS);
+    }
+    if (newNode) {
+      newNode.classList.add(ACTIVE_CLASS);
+    }
+    this._updateTabStop();
+    if (newNode && this._active && this._hasFocus()) {
+      newNode.focus();
+    }
   }
 
   /**
@@ -336,33 +444,64 @@ class MenuBar extends AbstractMenu {
 
     // Restore the active node class.
     let active = nodes[this.activeIndex];
-    if (active) active.classList.add(ACTIVE_CLASS);
+    if (active) {
+      active.classList.add(ACTIVE_CLASS);
+    }
+
+    // Restore the expanded state of the open menu item.
+    this._updateExpanded();
 
     // Hide the redundant and useless menu item nodes.
     MenuBarPrivate.hideUselessItems(nodes, items);
+
+    // Restore the tab stop of the menu bar.
+    this._updateTabStop();
   }
 
   /**
    * A message handler invoked on an `'after-attach'` message.
    */
   protected onAfterAttach(msg: Message): void {
+    this._updateDirection();
+    this.node.addEventListener('pointerdown', this);
     this.node.addEventListener('mousedown', this);
     this.node.addEventListener('mousemove', this);
     this.node.addEventListener('mouseleave', this);
     this.node.addEventListener('contextmenu', this);
+    commands.commandChanged.connect(this._onCommandChanged, this);
+    this.update();
   }
 
   /**
    * A message handler invoked on a `'before-detach'` message.
    */
   protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('pointerdown', this);
     this.node.removeEventListener('mousedown', this);
     this.node.removeEventListener('mousemove', this);
     this.node.removeEventListener('mouseleave', this);
     this.node.removeEventListener('contextmenu', this);
+    commands.commandChanged.disconnect(this._onCommandChanged, this);
     this._reset();
   }
 
+  /**
+   * Handle the `'pointerdown'` event for the menu bar.
+   *
+   * A touch press is handled as a mouse press, and the default action
+   * is prevented so that the browser does not generate compatibility
+   * mouse events, which would otherwise run the hover logic.
+   */
+  private _evtPointerDown(event: PointerEvent): void {
+    let touch = isTouchEvent(event);
+    this.toggleClass(TOUCH_CLASS, touch);
+    if (!touch || !event.isPrimary) {
+      return;
+    }
+    event.preventDefault();
+    this._evtMouseDown(event);
+  }
+
   /**
    * Handle the `'mousedown'` event for the menu bar.
    */
@@ -390,7 +529,7 @@ class MenuBar extends AbstractMenu {
     // If the press was not on an item, reset the menu bar.
     if (i === -1) {
       this._deactivate();
-      this._closeChildMenu();
+      this._closeChildMenu('outside');
       this.activeIndex = -1;
       return;
     }
@@ -469,16 +608,30 @@ class MenuBar extends AbstractMenu {
       break;
     case 27:  // Escape
       event.preventDefault();
-      if (leaf) leaf.close();
+      if (leaf) leaf.close('escape');
+      break;
+    case 33:  // Page Up
+      event.preventDefault();
+      if (leaf) leaf.activatePreviousPage();
+      break;
+    case 34:  // Page Down
+      event.preventDefault();
+      if (leaf) leaf.activateNextPage();
+      break;
+    case 35:  // End
+      event.preventDefault();
+      if (leaf) leaf.activateLastItem();
+      break;
+    case 36:  // Home
+      event.preventDefault();
+      if (leaf) leaf.activateFirstItem();
       break;
     case 37:  // Left Arrow
       event.preventDefault();
-      if (leaf && leaf !== menu) {
-        leaf.close();
+      if (this.hasClass(RTL_CLASS)) {
+        this._keyForward();
       } else {
-        this._closeChildMenu();
-        this.activatePreviousItem();
-        this.openActiveItem();
+        this._keyBackward();
       }
       break;
     case 38:  // Up Arrow
@@ -487,12 +640,10 @@ class MenuBar extends AbstractMenu {
       break;
     case 39:  // Right Arrow
       event.preventDefault();
-      if (leaf && leaf.activeItem && leaf.activeItem.submenu) {
-        leaf.openActiveItem();
+      if (this.hasClass(RTL_CLASS)) {
+        this._keyBackward();
       } else {
-        this._closeChildMenu();
-        this.activateNextItem();
-        this.openActiveItem();
+        this._keyForward();
       }
       break;
     case 40:  // Down Arrow
@@ -511,60 +662,147 @@ class MenuBar extends AbstractMenu {
     let menu = this._childMenu;
     let leaf = menu && menu.leafMenu;
     let key = String.fromCharCode(event.charCode);
-    (leaf || this).activateMnemonicItem(key);
+    (leaf || this).activateTypeAheadItem(key);
+  }
+
+  /**
+   * Handle a key press which moves backward through the menus.
+   *
+   * This closes the open submenu of the leaf menu, or opens the menu
+   * for the previous item if there is no open submenu.
+   */
+  private _keyBackward(): void {
+    let menu = this._childMenu;
+    let leaf = menu && menu.leafMenu;
+    if (leaf && leaf !== menu) {
+      leaf.close('navigate');
+    } else {
+      this._closeChildMenu();
+      this.activatePreviousItem();
+      this.openActiveItem();
+    }
+  }
+
+  /**
+   * Handle a key press which moves forward through the menus.
+   *
+   * This opens the submenu of the active leaf menu item, or opens the
+   * menu for the next item if the active item has no submenu.
+   */
+  private _keyForward(): void {
+    let menu = this._childMenu;
+    let leaf = menu && menu.leafMenu;
+    if (leaf && leaf.activeItem && leaf.activeItem.submenu) {
+      leaf.openActiveItem();
+    } else {
+      this._closeChildMenu();
+      this.activateNextItem();
+      this.openActiveItem();
+    }
+  }
+
+  /**
+   * Update the right-to-left class of the menu bar.
+   */
+  private _updateDirection(): void {
+    let rtl: boolean;
+    if (this._direction !== 'auto') {
+      rtl = this._direction === 'rtl';
+    } else {
+      rtl = MenuBarPrivate.isRtlNode(this.node);
+    }
+    this.toggleClass(RTL_CLASS, rtl);
   }
 
   /**
    * Activate the menu bar and install the document listeners.
+   *
+   * The active item takes the focus if the menu bar is activated with
+   * the keyboard, and the previously focused element is recorded so
+   * the focus can be restored later.
    */
   private _activate(): void {
     if (this._active) {
       return;
     }
     this._active = true;
+    this._updateDirection();
+    this._previousFocus = document.activeElement as HTMLElement;
     this.addClass(ACTIVE_CLASS);
     document.addEventListener('mousedown', this, true);
     document.addEventListener('keydown', this, true);
     document.addEventListener('keypress', this, true);
+    let node = this._nodes[this.activeIndex];
+    if (node && isKeyboardInput()) {
+      node.focus();
+    }
   }
 
   /**
    * Deactivate the menu bar and remove the document listeners.
+   *
+   * If the menu bar or its open menu has the focus, the focus is
+   * restored to the element which was focused on activation.
    */
   private _deactivate(): void {
     if (!this._active) {
       return;
     }
+    let focus = document.activeElement;
+    let hadFocus = this.node.contains(focus) || (
+      MenuBarPrivate.menusContain(this._childMenu, focus)
+    );
+    let previous = this._previousFocus;
     this._active = false;
+    this._previousFocus = null;
     this.removeClass(ACTIVE_CLASS);
     document.removeEventListener('mousedown', this, true);
     document.removeEventListener('keydown', this, true);
     document.removeEventListener('keypress', this, true);
+    if (hadFocus && previous && document.body.contains(previous)) {
+      previous.focus();
+    }
   }
 
   /**
    * Open the child menu using the given item node for location.
+   *
+   * If the menu bar has the focus, it is passed to the child menu so
+   * that keyboard navigation moves the focus through the menu items.
    */
   private _openChildMenu(menu: Menu, node: HTMLElement): void {
     let rect = node.getBoundingClientRect();
     this._childMenu = menu;
+    this._updateExpanded();
     menu.addClass(MENU_CLASS);
-    menu.open(rect.left, rect.bottom, false, true);
+    this._updateDirection();
+    let rtl = this.hasClass(RTL_CLASS);
+    let x = rtl ? rect.right : rect.left;
+    let direction: MenuDirection = rtl ? 'rtl' : 'ltr';
+    menu.open(x, rect.bottom, false, true, this._boundary, direction);
+    if (this.node.contains(document.activeElement)) {
+      menu.contentNode.focus();
+    }
     menu.closed.connect(this._onMenuClosed, this);
+    menu.triggered.connect(this._onMenuTriggered, this);
   }
 
   /**
    * Close the current child menu, if one exists.
+   *
+   * The reason is reported by the `closed` signal of the menu.
    */
-  private _closeChildMenu(): void {
+  private _closeChildMenu(reason: MenuCloseReason = 'menubar'): void {
     let menu = this._childMenu;
     if (!menu) {
       return;
     }
     this._childMenu = null;
+    this._updateExpanded();
     menu.closed.disconnect(this._onMenuClosed, this);
+    menu.triggered.disconnect(this._onMenuTriggered, this);
     menu.removeClass(MENU_CLASS);
-    menu.close();
+    menu.close(reason);
   }
 
   /**
@@ -584,19 +822,95 @@ class MenuBar extends AbstractMenu {
     this.update();
   }
 
+  /**
+   * Handle the `commandChanged` signal from the command registry.
+   *
+   * The menu bar is updated if one of its items uses the command.
+   */
+  private _onCommandChanged(sender: CommandRegistry, id: string): void {
+    if (this.items.some(item => item.command === id)) {
+      this.update();
+    }
+  }
+
   /**
    * Handle the `closed` signal from the child menu.
    */
   private _onMenuClosed(sender: Menu): void {
     sender.closed.disconnect(this._onMenuClosed, this);
+    sender.triggered.disconnect(this._onMenuTriggered, this);
     sender.removeClass(MENU_CLASS);
     this._deactivate();
     this._childMenu = null;
+    this._updateExpanded();
     this.activeIndex = -1;
   }
 
+  /**
+   * Handle the `triggered` signal from the child menu.
+   *
+   * The signal is re-emitted with the menu bar item added to the path.
+   */
+  private _onMenuTriggered(sender: Menu, args: ITriggeredArgs): void {
+    let path = [this.activeItem].concat(args.path);
+    this.triggered.emit({ item: args.item, path: path, source: args.source });
+  }
+
+  /**
+   * Update the `aria-expanded` state of the submenu item nodes.
+   *
+   * The node for the item whose menu is open is marked as expanded,
+   * and the nodes for the other submenu items are not.
+   */
+  private _updateExpanded(): void {
+    let items = this.items;
+    let nodes = this._nodes;
+    let menu = this._childMenu;
+    for (let i = 0, n = items.length; i < n; ++i) {
+      if (items[i].type === MenuItem.Submenu) {
+        let expanded = !!menu && items[i].submenu === menu;
+        nodes[i].setAttribute('aria-expanded', expanded ? 'true' : 'false');
+      } else {
+        nodes[i].removeAttribute('aria-expanded');
+      }
+    }
+  }
+
+  /**
+   * Test whether the menu bar or its open menus have the focus.
+   */
+  private _hasFocus(): boolean {
+    let focus = document.activeElement;
+    if (this.node.contains(focus)) {
+      return true;
+    }
+    return MenuBarPrivate.menusContain(this._childMenu, focus);
+  }
+
+  /**
+   * Update the tab index of the item nodes.
+   *
+   * The active item node is the tab stop of the menu bar. When there
+   * is no active item, the first selectable item node is the tab stop
+   * so the menu bar can be reached with the keyboard.
+   */
+  private _updateTabStop(): void {
+    let items = this.items;
+    let nodes = this._nodes;
+    let k = this.activeIndex;
+    if (k === -1) {
+      k = arrays.findIndex(items, item => this.isSelectable(item));
+    }
+    for (let i = 0, n = nodes.length; i < n; ++i) {
+      nodes[i].tabIndex = i === k ? 0 : -1;
+    }
+  }
+
   private _active = false;
+  private _boundary: MenuBoundary = null;
+  private _direction: MenuDirection = 'auto';
   private _childMenu: Menu = null;
+  private _previousFocus: HTMLElement = null;
   private _nodes: HTMLElement[] = [];
 }
 
@@ -605,6 +919,35 @@ class MenuBar extends AbstractMenu {
  * The namespace for the menu bar private data.
  */
 namespace MenuBarPrivate {
+  /**
+   * Initialize a menu bar from an options object.
+   */
+  export
+  function initFrom(bar: MenuBar, options: IMenuBarOptions): void {
+    if (options.boundary !== void 0) {
+      bar.boundary = options.boundary;
+    }
+    if (options.direction !== void 0) {
+      bar.direction = options.direction;
+    }
+  }
+
+  /**
+   * Test whether a node is laid out right-to-left.
+   *
+   * The `dir` attribute of the node takes precedence. Otherwise the
+   * computed direction of the parent node is used, so that the class
+   * added to the node does not affect the result.
+   */
+  export
+  function isRtlNode(node: HTMLElement): boolean {
+    if (node.dir) {
+      return node.dir.toLowerCase() === 'rtl';
+    }
+    let parent = node.parentElement || document.body;
+    return window.getComputedStyle(parent).direction === 'rtl';
+  }
+
   /**
    * Create the class name for a menu bar item.
    */
@@ -617,12 +960,53 @@ namespace MenuBarPrivate {
     if (item.type === MenuItem.Separator) {
       return name + ' ' + SEPARATOR_TYPE_CLASS;
     }
-    if (item.disabled || (item.type === MenuItem.Submenu && !item.submenu)) {
+    if (isItemDisabled(item)) {
       return name + ' ' + DISABLED_CLASS;
     }
     return name;
   }
 
+  /**
+   * Update the ARIA role and state attributes for a menu bar item node.
+   */
+  export
+  function updateItemAria(node: HTMLElement, item: MenuItem): void {
+    if (item.type === MenuItem.Separator) {
+      node.setAttribute('role', 'separator');
+      node.removeAttribute('aria-haspopup');
+      node.removeAttribute('aria-disabled');
+      return;
+    }
+    let sub = item.type === MenuItem.Submenu;
+    node.setAttribute('role', 'menuitem');
+    if (sub) {
+      node.setAttribute('aria-haspopup', 'true');
+    } else {
+      node.removeAttribute('aria-haspopup');
+    }
+    if (isItemDisabled(item)) {
+      node.setAttribute('aria-disabled', 'true');
+    } else {
+      node.removeAttribute('aria-disabled');
+    }
+  }
+
+  /**
+   * Test whether a menu bar item is displayed as disabled.
+   *
+   * A submenu item is disabled if it has no submenu. Any other item
+   * is disabled if its command is not enabled.
+   */
+  function isItemDisabled(item: MenuItem): boolean {
+    if (item.disabled) {
+      return true;
+    }
+    if (item.type === MenuItem.Submenu) {
+      return !item.submenu;
+    }
+    return !!item.command && !commands.isEnabled(item.command);
+  }
+
   /**
    * Hit test the chain of menus for the given client position.
    */
@@ -637,6 +1021,20 @@ namespace MenuBarPrivate {
     return false;
   }
 
+  /**
+   * Test whether the chain of menus contains the given element.
+   */
+  export
+  function menusContain(menu: Menu, element: Element): boolean {
+    while (menu) {
+      if (menu.node.contains(element)) {
+        return true;
+      }
+      menu = menu.childMenu;
+    }
+    return false;
+  }
+
   /**
    * Hide the irrelevant item nodes for a menu bar.
    */
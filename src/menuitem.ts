@@ -19,6 +19,10 @@ import {
   Menu
 } from './menu';
 
+import {
+  releaseRadioItem, uncheckRadioGroup
+} from './private';
+
 
 /**
  * An enum of the supported menu item types.
@@ -44,6 +48,11 @@ enum MenuItemType {
    * A submenu menu item.
    */
   Submenu,
+
+  /**
+   * A checkable menu item which is exclusive within its group.
+   */
+  Radio,
 }
 
 
@@ -89,6 +98,11 @@ interface IMenuItemOptions {
    */
   disabled?: boolean;
 
+  /**
+   * The radio group name for the menu item.
+   */
+  group?: string;
+
   /**
    * The extra class name to associate with the menu item.
    */
@@ -99,10 +113,20 @@ interface IMenuItemOptions {
    */
   handler?: MenuItemHandler;
 
+  /**
+   * The id of the registered command for the menu item.
+   */
+  command?: string;
+
   /**
    * The submenu for the menu item.
    */
   submenu?: Menu;
+
+  /**
+   * Whether triggering the menu item leaves the menu open.
+   */
+  keepOpen?: boolean;
 }
 
 
@@ -197,7 +221,8 @@ class MenuItem {
    * #### Notes
    * The default value is an empty string.
    *
-   * The shortcut string is for decoration only.
+   * The shortcut is invoked by a [[KeyBindingManager]] which manages
+   * a menu containing the item.
    */
   get shortcut(): string {
     return MenuItemPrivate.shortcutProperty.get(this);
@@ -207,7 +232,11 @@ class MenuItem {
    * Set the shortcut key for the menu item.
    *
    * #### Notes
-   * The shortcut string is for decoration only.
+   * The shortcut has the form `'Ctrl+Shift+S'`. Modifier and key
+   * names are case insensitive.
+   *
+   * A chord is written as whitespace separated keystrokes, such as
+   * `'Ctrl+K Ctrl+S'`.
    */
   set shortcut(value: string) {
     MenuItemPrivate.shortcutProperty.set(this, value);
@@ -227,12 +256,45 @@ class MenuItem {
    * Set the checked state for the menu item.
    *
    * #### Notes
-   * Only a `Check` type menu item can be checked.
+   * Only a `Check` or `Radio` type menu item can be checked.
+   *
+   * Checking a `Radio` type menu item will uncheck the other `Radio`
+   * type menu items in the same group of each menu which contains it.
+   * The items which are not contained in a menu share a single scope.
    */
   set checked(value: boolean) {
     MenuItemPrivate.checkedProperty.set(this, value);
   }
 
+  /**
+   * Get the radio group name for the menu item.
+   *
+   * #### Notes
+   * The default value is an empty string.
+   *
+   * An empty group name means the item does not belong to a group.
+   */
+  get group(): string {
+    return MenuItemPrivate.groupProperty.get(this);
+  }
+
+  /**
+   * Set the radio group name for the menu item.
+   *
+   * #### Notes
+   * At most one `Radio` type menu item in a group can be checked.
+   *
+   * Groups are scoped to the menu which contains the items, so menus
+   * may reuse group names. The items which are not contained in any
+   * menu share a single scope. When a menu is given several checked
+   * items of a group, the last of them remains checked.
+   *
+   * Set the group to an empty string to remove the item from its group.
+   */
+  set group(value: string) {
+    MenuItemPrivate.groupProperty.set(this, value);
+  }
+
   /**
    * Get the disabled state for the menu item.
    *
@@ -297,6 +359,31 @@ class MenuItem {
     MenuItemPrivate.handlerProperty.set(this, value);
   }
 
+  /**
+   * Get the command id for the menu item.
+   *
+   * #### Notes
+   * The default value is an empty string.
+   *
+   * This is the id of a command in the global command registry.
+   */
+  get command(): string {
+    return MenuItemPrivate.commandProperty.get(this);
+  }
+
+  /**
+   * Set the command id for the menu item.
+   *
+   * #### Notes
+   * When a command is set, it is executed in place of the handler,
+   * and the enabled state, checked state, text, icon, and shortcut
+   * are derived from the command when the item is displayed. The
+   * item's own text, icon, and shortcut take precedence if set.
+   */
+  set command(value: string) {
+    MenuItemPrivate.commandProperty.set(this, value);
+  }
+
   /**
    * Get the submenu for the menu item.
    *
@@ -318,6 +405,29 @@ class MenuItem {
   set submenu(value: Menu) {
     MenuItemPrivate.submenuProperty.set(this, value);
   }
+
+  /**
+   * Get whether triggering the menu item leaves the menu open.
+   *
+   * #### Notes
+   * The default value is `null`, which defers to the `keepOpen`
+   * setting of the menu which contains the item.
+   */
+  get keepOpen(): boolean {
+    return MenuItemPrivate.keepOpenProperty.get(this);
+  }
+
+  /**
+   * Set whether triggering the menu item leaves the menu open.
+   *
+   * #### Notes
+   * When this is `true`, the menu hierarchy is not closed when the
+   * item is triggered, and the menu is updated to display the new
+   * state of the item. This is useful for `Check` and `Radio` items.
+   */
+  set keepOpen(value: boolean) {
+    MenuItemPrivate.keepOpenProperty.set(this, value);
+  }
 }
 
 
@@ -349,6 +459,12 @@ namespace MenuItem {
    */
   export
   const Submenu = MenuItemType.Submenu;
+
+  /**
+   * A convenience alias of the `Radio` [[MenuItemType]].
+   */
+  export
+  const Radio = MenuItemType.Radio;
 }
 
 
@@ -370,7 +486,10 @@ namespace MenuItemPrivate {
     name: 'type',
     value: MenuItemType.Normal,
     coerce: (owner, value) => owner.submenu ? MenuItemType.Submenu : value,
-    changed: owner => { checkedProperty.coerce(owner); },
+    changed: owner => {
+      checkedProperty.coerce(owner);
+      syncRadioGroup(owner, owner.group);
+    },
     notify: changedSignal,
   });
 
@@ -411,7 +530,20 @@ namespace MenuItemPrivate {
   const checkedProperty = new Property<MenuItem, boolean>({
     name: 'checked',
     value: false,
-    coerce: (owner, value) => owner.type === MenuItemType.Check ? value : false,
+    coerce: (owner, value) => isCheckable(owner) ? value : false,
+    changed: owner => { syncRadioGroup(owner, owner.group); },
+    notify: changedSignal,
+  });
+
+  /**
+   * The property descriptor for the menu item radio group name.
+   */
+  export
+  const groupProperty = new Property<MenuItem, string>({
+    name: 'group',
+    value: '',
+    coerce: (owner, value) => value || '',
+    changed: (owner, old) => { syncRadioGroup(owner, old); },
     notify: changedSignal,
   });
 
@@ -446,6 +578,17 @@ namespace MenuItemPrivate {
     notify: changedSignal,
   });
 
+  /**
+   * The property descriptor for the menu item command id.
+   */
+  export
+  const commandProperty = new Property<MenuItem, string>({
+    name: 'command',
+    value: '',
+    coerce: (owner, value) => value || '',
+    notify: changedSignal,
+  });
+
   /**
    * The property descriptor for the menu item submenu.
    */
@@ -458,6 +601,16 @@ namespace MenuItemPrivate {
     notify: changedSignal,
   });
 
+  /**
+   * The property descriptor for the menu item keep open state.
+   */
+  export
+  const keepOpenProperty = new Property<MenuItem, boolean>({
+    name: 'keepOpen',
+    value: null,
+    notify: changedSignal,
+  });
+
   /**
    * Initialize a menu item from an options object.
    */
@@ -481,14 +634,44 @@ namespace MenuItemPrivate {
     if (options.disabled !== void 0) {
       item.disabled = options.disabled;
     }
+    if (options.group !== void 0) {
+      item.group = options.group;
+    }
     if (options.className !== void 0) {
       item.className = options.className;
     }
     if (options.handler !== void 0) {
       item.handler = options.handler;
     }
+    if (options.command !== void 0) {
+      item.command = options.command;
+    }
     if (options.submenu !== void 0) {
       item.submenu = options.submenu;
     }
+    if (options.keepOpen !== void 0) {
+      item.keepOpen = options.keepOpen;
+    }
+  }
+
+  /**
+   * Enforce the radio group exclusivity after a menu item changes.
+   *
+   * The `group` is the group to which the item belonged before the
+   * change, which is released before the new state is applied.
+   */
+  function syncRadioGroup(item: MenuItem, group: string): void {
+    releaseRadioItem(item, group);
+    if (item.type === MenuItemType.Radio && item.checked && item.group) {
+      uncheckRadioGroup(item);
+    }
+  }
+
+  /**
+   * Test whether a menu item supports the checked state.
+   */
+  function isCheckable(item: MenuItem): boolean {
+    let type = item.type;
+    return type === MenuItemType.Check || type === MenuItemType.Radio;
   }
 }
@@ -0,0 +1,221 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import * as arrays
+  from 'phosphor-arrays';
+
+import {
+  Property
+} from 'phosphor-properties';
+
+import {
+  AbstractMenu
+} from './base';
+
+import {
+  commands
+} from './commands';
+
+import {
+  MenuItem
+} from './menuitem';
+
+
+// The helpers in this module are shared by the menu modules. They are
+// not part of the public API and are not exported from the package.
+
+
+/**
+ * Get the display text for a menu item.
+ *
+ * @param item - The menu item of interest.
+ *
+ * @returns The item text, or the command label if the item has no
+ *   text of its own.
+ */
+export
+function itemText(item: MenuItem): string {
+  if (item.text || !item.command) {
+    return item.text;
+  }
+  return commands.label(item.command);
+}
+
+
+/**
+ * Get the icon class for a menu item.
+ *
+ * @param item - The menu item of interest.
+ *
+ * @returns The item icon, or the command icon if the item has no
+ *   icon of its own.
+ */
+export
+function itemIcon(item: MenuItem): string {
+  if (item.icon || !item.command) {
+    return item.icon;
+  }
+  return commands.icon(item.command);
+}
+
+
+/**
+ * Get the effective shortcut for a menu item.
+ *
+ * @param item - The menu item of interest.
+ *
+ * @returns The item shortcut, or the command shortcut if the item
+ *   has no shortcut of its own.
+ */
+export
+function itemShortcut(item: MenuItem): string {
+  if (item.shortcut || !item.command) {
+    return item.shortcut;
+  }
+  return commands.shortcut(item.command);
+}
+
+
+/**
+ * Test whether a non-submenu menu item can be invoked.
+ *
+ * @param item - The menu item of interest.
+ *
+ * @returns `true` if the item is not disabled and has an enabled
+ *   command or a handler, `false` otherwise.
+ */
+export
+function isItemEnabled(item: MenuItem): boolean {
+  if (item.disabled) {
+    return false;
+  }
+  if (item.command) {
+    return commands.isEnabled(item.command);
+  }
+  return !!item.handler;
+}
+
+
+/**
+ * Record that a menu contains a menu item.
+ *
+ * @param item - The menu item of interest.
+ *
+ * @param menu - The menu which contains the item.
+ */
+export
+function addItemMenu(item: MenuItem, menu: AbstractMenu): void {
+  let menus = RadioGroupPrivate.menusProperty.get(item);
+  if (menus.indexOf(menu) === -1) {
+    menus.push(menu);
+  }
+  releaseRadioItem(item, item.group);
+}
+
+
+/**
+ * Record that a menu no longer contains a menu item.
+ *
+ * @param item - The menu item of interest.
+ *
+ * @param menu - The menu which contained the item.
+ *
+ * @returns `true` if the item is no longer contained in any menu.
+ */
+export
+function removeItemMenu(item: MenuItem, menu: AbstractMenu): boolean {
+  let menus = RadioGroupPrivate.menusProperty.get(item);
+  arrays.remove(menus, menu);
+  return menus.length === 0;
+}
+
+
+/**
+ * Uncheck the other radio items in the group of a radio item.
+ *
+ * @param item - A checked `Radio` item which belongs to a group.
+ *
+ * #### Notes
+ * A group is scoped to each menu which contains the item. The items
+ * which are not contained in a menu share a single scope, in which
+ * the most recently checked item of the group is tracked.
+ */
+export
+function uncheckRadioGroup(item: MenuItem): void {
+  let group = item.group;
+  let menus = RadioGroupPrivate.menusProperty.get(item);
+  if (menus.length === 0) {
+    let other = RadioGroupPrivate.standaloneRadios[group];
+    RadioGroupPrivate.standaloneRadios[group] = item;
+    if (other && other !== item && RadioGroupPrivate.isStandaloneMatch(other, item)) {
+      other.checked = false;
+    }
+    return;
+  }
+  for (let menu of menus) {
+    for (let other of menu.items) {
+      if (other !== item && other.type === item.type && other.group === group) {
+        other.checked = false;
+      }
+    }
+  }
+}
+
+
+/**
+ * Stop tracking a radio item as the checked item of a group.
+ *
+ * @param item - The menu item of interest.
+ *
+ * @param group - The group in which the item may be tracked.
+ *
+ * #### Notes
+ * This should be called when the item is unchecked, leaves the
+ * group, or is added to a menu.
+ */
+export
+function releaseRadioItem(item: MenuItem, group: string): void {
+  if (RadioGroupPrivate.standaloneRadios[group] === item) {
+    delete RadioGroupPrivate.standaloneRadios[group];
+  }
+}
+
+
+/**
+ * The namespace for the radio group private data.
+ */
+namespace RadioGroupPrivate {
+  /**
+   * The property descriptor for the menus which contain an item.
+   */
+  export
+  const menusProperty = new Property<MenuItem, AbstractMenu[]>({
+    name: 'menus',
+    create: () => [],
+  });
+
+  /**
+   * A mapping of group name to the checked radio item of the group,
+   * for the radio items which are not contained in a menu.
+   */
+  export
+  const standaloneRadios: { [group: string]: MenuItem } = Object.create(null);
+
+  /**
+   * Test whether an item is a radio item in the same standalone
+   * group as another radio item.
+   */
+  export
+  function isStandaloneMatch(other: MenuItem, item: MenuItem): boolean {
+    if (other.type !== item.type || other.group !== item.group) {
+      return false;
+    }
+    return menusProperty.get(other).length === 0;
+  }
+}
@@ -0,0 +1,382 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+
+/**
+ * The default ms delay before a press is considered a long press.
+ */
+const LONG_PRESS_DELAY = 500;
+
+/**
+ * The default px distance a pointer may move during a tap or press.
+ */
+const TAP_TOLERANCE = 10;
+
+
+/**
+ * Test whether a pointer event was generated by a touch or a pen.
+ *
+ * @param event - The pointer event of interest.
+ *
+ * @returns `true` if the pointer is a touch or pen, `false` otherwise.
+ */
+export
+function isTouchEvent(event: PointerEvent): boolean {
+  return event.pointerType === 'touch' || event.pointerType === 'pen';
+}
+
+
+/**
+ * Test whether the most recent pointer input was a touch or a pen.
+ *
+ * #### Notes
+ * The pointer input is only tracked after [[trackPointerInput]] has
+ * been called. Menus use this to enable their touch mode on open.
+ */
+export
+function isTouchInput(): boolean {
+  return TouchPrivate.touchInput;
+}
+
+
+/**
+ * Test whether the most recent input was from the keyboard.
+ *
+ * #### Notes
+ * The input is only tracked after [[trackPointerInput]] has been
+ * called. Menus use this to move the focus only when they are opened
+ * with the keyboard.
+ */
+export
+function isKeyboardInput(): boolean {
+  return TouchPrivate.keyboardInput;
+}
+
+
+/**
+ * Start tracking the type of pointer input for the document.
+ *
+ * #### Notes
+ * This is called automatically by the menu widgets. Subsequent
+ * calls are a no-op.
+ *
+ * This also tracks whether the most recent input was a key press or
+ * a pointer press.
+ */
+export
+function trackPointerInput(): void {
+  if (TouchPrivate.tracking) {
+    return;
+  }
+  TouchPrivate.tracking = true;
+  document.addEventListener('pointerdown', TouchPrivate.onPointerDown, true);
+  document.addEventListener('mousedown', TouchPrivate.onMouseDown, true);
+  document.addEventListener('keydown', TouchPrivate.onKeyDown, true);
+}
+
+
+/**
+ * An options object for initializing a long press handler.
+ */
+export
+interface ILongPressOptions {
+  /**
+   * The ms delay before a press is considered a long press.
+   *
+   * The default is `500`.
+   */
+  delay?: number;
+
+  /**
+   * The px distance the pointer may move before the press is canceled.
+   *
+   * The default is `10`.
+   */
+  tolerance?: number;
+}
+
+
+/**
+ * An object which opens context menus on a touch long press.
+ *
+ * #### Notes
+ * When a touch or pen is held on the node without moving, the handler
+ * dispatches a `contextmenu` event at the press location. This allows
+ * the same `contextmenu` listeners to serve mouse and touch users.
+ *
+ * If the browser dispatches its own `contextmenu` event for the long
+ * press, the native event is used and no duplicate event is created.
+ */
+export
+class LongPressHandler {
+  /**
+   * Construct a new long press handler.
+   *
+   * @param node - The node on which to detect long presses.
+   *
+   * @param options - The initialization options for the handler.
+   */
+  constructor(node: HTMLElement, options?: ILongPressOptions) {
+    this._node = node;
+    if (options && options.delay !== void 0) {
+      this._delay = options.delay;
+    }
+    if (options && options.tolerance !== void 0) {
+      this._tolerance = options.tolerance;
+    }
+    node.addEventListener('pointerdown', this);
+    node.addEventListener('pointermove', this);
+    node.addEventListener('pointerup', this);
+    node.addEventListener('pointercancel', this);
+    node.addEventListener('contextmenu', this, true);
+    trackPointerInput();
+  }
+
+  /**
+   * Dispose of the resources held by the handler.
+   */
+  dispose(): void {
+    this._cancel();
+    this._node.removeEventListener('pointerdown', this);
+    this._node.removeEventListener('pointermove', this);
+    this._node.removeEventListener('pointerup', this);
+    this._node.removeEventListener('pointercancel', this);
+    this._node.removeEventListener('contextmenu', this, true);
+  }
+
+  /**
+   * Get the node on which long presses are detected.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get node(): HTMLElement {
+    return this._node;
+  }
+
+  /**
+   * Handle the DOM events for the long press handler.
+   *
+   * @param event - The DOM event sent to the handler.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the handler's node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'pointerdown':
+      this._evtPointerDown(event as PointerEvent);
+      break;
+    case 'pointermove':
+      this._evtPointerMove(event as PointerEvent);
+      break;
+    case 'pointerup':
+    case 'pointercancel':
+      this._evtPointerUp(event as PointerEvent);
+      break;
+    case 'contextmenu':
+      this._evtContextMenu(event as MouseEvent);
+      break;
+    }
+  }
+
+  /**
+   * Handle the `'pointerdown'` event for the handler.
+   */
+  private _evtPointerDown(event: PointerEvent): void {
+    this._cancel();
+    this._fired = false;
+    if (!isTouchEvent(event) || !event.isPrimary) {
+      return;
+    }
+    let press = this._press = {
+      id: event.pointerId,
+      target: event.target as HTMLElement,
+      clientX: event.clientX,
+      clientY: event.clientY,
+      screenX: event.screenX,
+      screenY: event.screenY,
+    };
+    this._timerId = setTimeout(() => {
+      this._timerId = 0;
+      this._press = null;
+      this._fire(press);
+    }, this._delay);
+  }
+
+  /**
+   * Handle the `'pointermove'` event for the handler.
+   */
+  private _evtPointerMove(event: PointerEvent): void {
+    let press = this._press;
+    if (!press || press.id !== event.pointerId) {
+      return;
+    }
+    let dx = event.clientX - press.clientX;
+    let dy = event.clientY - press.clientY;
+    if (Math.sqrt(dx * dx + dy * dy) > this._tolerance) {
+      this._cancel();
+    }
+  }
+
+  /**
+   * Handle the `'pointerup'` and `'pointercancel'` events.
+   */
+  private _evtPointerUp(event: PointerEvent): void {
+    let press = this._press;
+    if (press && press.id === event.pointerId) {
+      this._cancel();
+    }
+  }
+
+  /**
+   * Handle the `'contextmenu'` event for the handler.
+   *
+   * A native event which arrives during a pending press replaces the
+   * synthetic event, and one which arrives after the synthetic event
+   * has been dispatched is suppressed.
+   */
+  private _evtContextMenu(event: MouseEvent): void {
+    if (event === this._synthetic) {
+      return;
+    }
+    if (this._fired) {
+      this._fired = false;
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+    this._cancel();
+  }
+
+  /**
+   * Dispatch a synthetic `contextmenu` event for a long press.
+   */
+  private _fire(press: TouchPrivate.IPress): void {
+    let event = document.createEvent('MouseEvent');
+    event.initMouseEvent(
+      'contextmenu', true, true, window, 0,
+      press.screenX, press.screenY, press.clientX, press.clientY,
+      false, false, false, false, 2, null
+    );
+    this._synthetic = event;
+    press.target.dispatchEvent(event);
+    this._synthetic = null;
+    this._fired = true;
+  }
+
+  /**
+   * Cancel the pending long press, if any.
+   */
+  private _cancel(): void {
+    if (this._timerId) {
+      clearTimeout(this._timerId);
+      this._timerId = 0;
+    }
+    this._press = null;
+  }
+
+  private _node: HTMLElement;
+  private _delay = LONG_PRESS_DELAY;
+  private _tolerance = TAP_TOLERANCE;
+  private _timerId = 0;
+  private _fired = false;
+  private _synthetic: MouseEvent = null;
+  private _press: TouchPrivate.IPress = null;
+}
+
+
+/**
+ * The namespace for the touch private data.
+ */
+namespace TouchPrivate {
+  /**
+   * Whether the pointer input is being tracked.
+   */
+  export
+  let tracking = false;
+
+  /**
+   * Whether the most recent pointer input was a touch or a pen.
+   */
+  export
+  let touchInput = false;
+
+  /**
+   * Whether the most recent input was from the keyboard.
+   */
+  export
+  let keyboardInput = false;
+
+  /**
+   * The state of a pending long press.
+   */
+  export
+  interface IPress {
+    /**
+     * The id of the pressed pointer.
+     */
+    id: number;
+
+    /**
+     * The target of the initial pointer event.
+     */
+    target: HTMLElement;
+
+    /**
+     * The client X coordinate of the press.
+     */
+    clientX: number;
+
+    /**
+     * The client Y coordinate of the press.
+     */
+    clientY: number;
+
+    /**
+     * The screen X coordinate of the press.
+     */
+    screenX: number;
+
+    /**
+     * The screen Y coordinate of the press.
+     */
+    screenY: number;
+  }
+
+  /**
+   * Record the type of a document pointer press.
+   */
+  export
+  function onPointerDown(event: PointerEvent): void {
+    touchInput = isTouchEvent(event);
+    keyboardInput = false;
+  }
+
+  /**
+   * Record a document mouse press.
+   *
+   * The touch state is left unchanged, since a touch press may be
+   * followed by a compatibility mouse press.
+   */
+  export
+  function onMouseDown(event: MouseEvent): void {
+    keyboardInput = false;
+  }
+
+  /**
+   * Record a document key press.
+   */
+  export
+  function onKeyDown(event: KeyboardEvent): void {
+    keyboardInput = true;
+  }
+}
@@ -0,0 +1,110 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  CommandRegistry
+} from '../../lib/index';
+
+
+describe('phosphor-menus', () => {
+
+  describe('CommandRegistry', () => {
+
+    describe('#addCommand()', () => {
+
+      it('should register a command', () => {
+        let registry = new CommandRegistry();
+        registry.addCommand('test:a', { execute: () => { } });
+        expect(registry.hasCommand('test:a')).to.be(true);
+        expect(registry.listCommands()).to.eql(['test:a']);
+      });
+
+      it('should throw if the command is already registered', () => {
+        let registry = new CommandRegistry();
+        registry.addCommand('test:a', { execute: () => { } });
+        expect(() => {
+          registry.addCommand('test:a', { execute: () => { } });
+        }).to.throwError();
+      });
+
+      it('should emit the `commandChanged` signal', () => {
+        let ids: string[] = [];
+        let registry = new CommandRegistry();
+        registry.commandChanged.connect((sender, id) => { ids.push(id); });
+        registry.addCommand('test:a', { execute: () => { } });
+        registry.removeCommand('test:a');
+        registry.removeCommand('test:a');
+        expect(ids).to.eql(['test:a', 'test:a']);
+      });
+
+    });
+
+    describe('#notifyCommandChanged()', () => {
+
+      it('should emit the `commandChanged` signal for a registered command', () => {
+        let ids: string[] = [];
+        let registry = new CommandRegistry();
+        registry.addCommand('test:a', { execute: () => { } });
+        registry.commandChanged.connect((sender, id) => { ids.push(id); });
+        registry.notifyCommandChanged('test:a');
+        registry.notifyCommandChanged('test:b');
+        expect(ids).to.eql(['test:a']);
+      });
+
+    });
+
+    describe('#execute()', () => {
+
+      it('should execute an enabled command', () => {
+        let count = 0;
+        let enabled = true;
+        let registry = new CommandRegistry();
+        registry.addCommand('test:a', {
+          execute: () => { count++; }, isEnabled: () => enabled
+        });
+        registry.execute('test:a');
+        enabled = false;
+        registry.execute('test:a');
+        registry.execute('test:b');
+        expect(count).to.be(1);
+      });
+
+    });
+
+    describe('#isEnabled()', () => {
+
+      it('should default to `true` for a registered command', () => {
+        let registry = new CommandRegistry();
+        registry.addCommand('test:a', { execute: () => { } });
+        expect(registry.isEnabled('test:a')).to.be(true);
+        expect(registry.isEnabled('test:b')).to.be(false);
+      });
+
+    });
+
+    describe('#label()', () => {
+
+      it('should get the display state of a command', () => {
+        let registry = new CommandRegistry();
+        registry.addCommand('test:a', {
+          execute: () => { }, label: 'Copy', icon: 'copy-icon', shortcut: 'Ctrl+C'
+        });
+        expect(registry.label('test:a')).to.be('Copy');
+        expect(registry.icon('test:a')).to.be('copy-icon');
+        expect(registry.shortcut('test:a')).to.be('Ctrl+C');
+        expect(registry.label('test:b')).to.be('');
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,181 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  ContextMenu, MenuItem
+} from '../../lib/index';
+
+
+function triggerMouseEvent(node: Node, eventType: string) {
+  let event = document.createEvent('MouseEvent');
+  event.initMouseEvent(
+    eventType, true, true, window, 0, 0, 0, 0, 0,
+    false, false, false, false, 0, null
+  );
+  node.dispatchEvent(event);
+}
+
+
+describe('phosphor-menus', () => {
+
+  describe('ContextMenu', () => {
+
+    let host: HTMLElement;
+    let target: HTMLElement;
+
+    beforeEach(() => {
+      host = document.createElement('div');
+      host.id = 'host';
+      host.className = 'a b';
+      target = document.createElement('span');
+      target.className = 'c';
+      target.setAttribute('data-x', '1,2');
+      host.appendChild(target);
+      document.body.appendChild(host);
+    });
+
+    afterEach(() => {
+      document.body.removeChild(host);
+    });
+
+    /**
+     * Open the context menu on the target and get the item texts.
+     */
+    function openTexts(cm: ContextMenu): string[] {
+      triggerMouseEvent(target, 'contextmenu');
+      let texts = cm.menu.items.map(item => item.text);
+      cm.menu.close();
+      return texts.filter(text => !!text);
+    }
+
+    describe('#addItem()', () => {
+
+      it('should throw an error for an invalid selector', () => {
+        let cm = new ContextMenu();
+        expect(() => {
+          cm.addItem({ selector: '..c', item: new MenuItem({ text: 'bad' }) });
+        }).to.throwError();
+        cm.dispose();
+      });
+
+      it('should order the items by the distance of the matching node', () => {
+        let cm = new ContextMenu();
+        cm.addItem({ selector: '#host', item: new MenuItem({ text: 'host' }) });
+        cm.addItem({ selector: 'span', item: new MenuItem({ text: 'target' }) });
+        expect(openTexts(cm)).to.eql(['target', 'host']);
+        cm.dispose();
+      });
+
+      it('should order the items of a selector by rank', () => {
+        let cm = new ContextMenu();
+        cm.addItem({ selector: '.c', item: new MenuItem({ text: 'last' }) });
+        cm.addItem({ selector: '.c', item: new MenuItem({ text: 'second' }), rank: 2 });
+        cm.addItem({ selector: '.c', item: new MenuItem({ text: 'first' }), rank: 1 });
+        cm.addItem({ selector: '.c', item: new MenuItem({ text: 'third' }), rank: 2 });
+        expect(openTexts(cm)).to.eql(['first', 'second', 'third', 'last']);
+        cm.dispose();
+      });
+
+      it('should divide the groups with separators', () => {
+        let cm = new ContextMenu();
+        cm.addItem({ selector: '.c', item: new MenuItem({ text: 'one' }) });
+        cm.addItem({ selector: '.c', item: new MenuItem({ text: 'two' }) });
+        cm.addItem({ selector: '.a', item: new MenuItem({ text: 'three' }) });
+        triggerMouseEvent(target, 'contextmenu');
+        let types = cm.menu.items.map(item => item.type);
+        cm.menu.close();
+        expect(types).to.eql([
+          MenuItem.Normal, MenuItem.Normal, MenuItem.Separator, MenuItem.Normal
+        ]);
+        cm.dispose();
+      });
+
+      it('should show an item registered for several selectors once', () => {
+        let cm = new ContextMenu();
+        let item = new MenuItem({ text: 'shared' });
+        cm.addItem({ selector: '.a', item: item });
+        cm.addItem({ selector: '.c', item: item });
+        cm.addItem({ selector: '.c', item: new MenuItem({ text: 'other' }) });
+        expect(openTexts(cm)).to.eql(['shared', 'other']);
+        cm.dispose();
+      });
+
+      it('should count a functional pseudo-class as one pseudo-class', () => {
+        let cm = new ContextMenu();
+        cm.addItem({ selector: ':nth-child(1n)', item: new MenuItem({ text: 'nth' }) });
+        cm.addItem({ selector: '.c', item: new MenuItem({ text: 'class' }) });
+        expect(openTexts(cm)).to.eql(['class', 'nth']);
+        cm.dispose();
+      });
+
+      it('should give `:not()` the specificity of its argument', () => {
+        let cm = new ContextMenu();
+        cm.addItem({ selector: '.c.c', item: new MenuItem({ text: 'classes' }) });
+        cm.addItem({ selector: ':not(#other)', item: new MenuItem({ text: 'not' }) });
+        cm.addItem({ selector: 'span', item: new MenuItem({ text: 'type' }) });
+        expect(openTexts(cm)).to.eql(['not', 'classes', 'type']);
+        cm.dispose();
+      });
+
+      it('should not split a selector at a quoted comma', () => {
+        let cm = new ContextMenu();
+        cm.addItem({ selector: 'body span', item: new MenuItem({ text: 'types' }) });
+        cm.addItem({ selector: '[data-x="1,2"]', item: new MenuItem({ text: 'attr' }) });
+        expect(openTexts(cm)).to.eql(['attr', 'types']);
+        cm.dispose();
+      });
+
+      it('should use the most specific selector of a list', () => {
+        let cm = new ContextMenu();
+        cm.addItem({ selector: 'span.c', item: new MenuItem({ text: 'compound' }) });
+        cm.addItem({ selector: 'em, #host span', item: new MenuItem({ text: 'list' }) });
+        expect(openTexts(cm)).to.eql(['list', 'compound']);
+        cm.dispose();
+      });
+
+    });
+
+    describe('#removeItem()', () => {
+
+      it('should remove every registration of an item', () => {
+        let cm = new ContextMenu();
+        let item = new MenuItem({ text: 'shared' });
+        cm.addItem({ selector: '.a', item: item });
+        cm.addItem({ selector: '.c', item: item });
+        cm.addItem({ selector: 'span', item: new MenuItem({ text: 'other' }) });
+        cm.removeItem(item);
+        expect(openTexts(cm)).to.eql(['other']);
+        cm.dispose();
+      });
+
+    });
+
+    describe('#handleEvent()', () => {
+
+      it('should leave the native context menu if no item matches', () => {
+        let cm = new ContextMenu();
+        cm.addItem({ selector: '#other', item: new MenuItem({ text: 'other' }) });
+        let event = document.createEvent('MouseEvent');
+        event.initMouseEvent(
+          'contextmenu', true, true, window, 0, 0, 0, 0, 0,
+          false, false, false, false, 0, null
+        );
+        target.dispatchEvent(event);
+        expect(event.defaultPrevented).to.be(false);
+        expect(cm.menu.isAttached).to.be(false);
+        cm.dispose();
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,293 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  KeyBindingManager, Menu, MenuItem, Platform, formatShortcut,
+  getPlatform, keystrokeForKeydownEvent, normalizeKeystroke,
+  normalizeShortcut, setPlatform
+} from '../../lib/index';
+
+
+/**
+ * The options for a synthetic keyboard event.
+ */
+interface IKeyEventOptions {
+  keyCode?: number;
+  ctrlKey?: boolean;
+  shiftKey?: boolean;
+  altKey?: boolean;
+  metaKey?: boolean;
+}
+
+
+function createKeyEvent(eventType: string, options: IKeyEventOptions = {}): KeyboardEvent {
+  // cannot use KeyboardEvent in Chrome because it sets keyCode = 0
+  let event = document.createEvent('Event') as KeyboardEvent;
+  event.initEvent(eventType, true, true);
+  event.keyCode = options.keyCode || 0;
+  event.ctrlKey = options.ctrlKey || false;
+  event.shiftKey = options.shiftKey || false;
+  event.altKey = options.altKey || false;
+  event.metaKey = options.metaKey || false;
+  return event;
+}
+
+
+function triggerKeyEvent(node: Node, eventType: string, options: IKeyEventOptions = {}) {
+  node.dispatchEvent(createKeyEvent(eventType, options));
+}
+
+
+describe('phosphor-menus', () => {
+
+  describe('normalizeKeystroke()', () => {
+
+    it('should order the modifiers canonically', () => {
+      let result = normalizeKeystroke('shift+ctrl+s', Platform.Linux);
+      expect(result).to.be('Ctrl+Shift+S');
+    });
+
+    it('should normalize the modifier and key aliases', () => {
+      let result = normalizeKeystroke('Control+Option+esc', Platform.Linux);
+      expect(result).to.be('Ctrl+Alt+Escape');
+    });
+
+    it('should accept a plus key', () => {
+      expect(normalizeKeystroke('Ctrl++', Platform.Linux)).to.be('Ctrl++');
+    });
+
+    it('should return an empty string for an invalid keystroke', () => {
+      expect(normalizeKeystroke('Ctrl+Bogus', Platform.Linux)).to.be('');
+      expect(normalizeKeystroke('Ctrl', Platform.Linux)).to.be('');
+    });
+
+  });
+
+  describe('normalizeShortcut()', () => {
+
+    it('should normalize each keystroke of a chord', () => {
+      let result = normalizeShortcut('  ctrl+k   ctrl+s ', Platform.Linux);
+      expect(result).to.be('Ctrl+K Ctrl+S');
+    });
+
+    it('should return an empty string for an invalid keystroke', () => {
+      expect(normalizeShortcut('Ctrl+K Ctrl+Bogus', Platform.Linux)).to.be('');
+    });
+
+    it('should resolve `Accel` for the platform', () => {
+      expect(normalizeShortcut('Accel+S', Platform.Mac)).to.be('Cmd+S');
+      expect(normalizeShortcut('Accel+S', Platform.Windows)).to.be('Ctrl+S');
+    });
+
+  });
+
+  describe('formatShortcut()', () => {
+
+    it('should format the modifiers as text on other platforms', () => {
+      let result = formatShortcut('shift+accel+s', Platform.Windows);
+      expect(result).to.be('Ctrl+Shift+S');
+    });
+
+    it('should separate the keystrokes of a chord with a comma', () => {
+      let result = formatShortcut('Ctrl+K Ctrl+S', Platform.Linux);
+      expect(result).to.be('Ctrl+K, Ctrl+S');
+    });
+
+    it('should format the modifiers as glyphs on the Mac', () => {
+      let result = formatShortcut('shift+accel+s', Platform.Mac);
+      expect(result).to.be('⇧⌘S');
+    });
+
+    it('should separate the keystrokes of a chord with a space on the Mac', () => {
+      let result = formatShortcut('Cmd+K Cmd+S', Platform.Mac);
+      expect(result).to.be('⌘K ⌘S');
+    });
+
+    it('should return an invalid shortcut unmodified', () => {
+      expect(formatShortcut('Ctrl+Bogus', Platform.Mac)).to.be('Ctrl+Bogus');
+    });
+
+  });
+
+  describe('keystrokeForKeydownEvent()', () => {
+
+    it('should create the canonical keystroke for an event', () => {
+      let event = createKeyEvent('keydown', { keyCode: 83, ctrlKey: true, shiftKey: true });
+      expect(keystrokeForKeydownEvent(event)).to.be('Ctrl+Shift+S');
+    });
+
+    it('should map the Firefox key codes', () => {
+      let semicolon = createKeyEvent('keydown', { keyCode: 59, ctrlKey: true });
+      let equals = createKeyEvent('keydown', { keyCode: 61, ctrlKey: true });
+      let minus = createKeyEvent('keydown', { keyCode: 173, ctrlKey: true });
+      expect(keystrokeForKeydownEvent(semicolon)).to.be('Ctrl+;');
+      expect(keystrokeForKeydownEvent(equals)).to.be('Ctrl+=');
+      expect(keystrokeForKeydownEvent(minus)).to.be('Ctrl+-');
+    });
+
+    it('should return an empty string for a lone modifier', () => {
+      let event = createKeyEvent('keydown', { keyCode: 17, ctrlKey: true });
+      expect(keystrokeForKeydownEvent(event)).to.be('');
+    });
+
+  });
+
+  describe('KeyBindingManager', () => {
+
+    describe('#findItem()', () => {
+
+      it('should find the enabled item bound to a shortcut', () => {
+        let item = new MenuItem({ shortcut: 'Ctrl+S', handler: () => { } });
+        let manager = new KeyBindingManager();
+        manager.addMenu(new Menu([item]));
+        expect(manager.findItem('ctrl+s')).to.be(item);
+        item.disabled = true;
+        expect(manager.findItem('Ctrl+S')).to.be(null);
+        manager.dispose();
+      });
+
+    });
+
+    describe('#handleEvent()', () => {
+
+      it('should invoke an item which matches a keystroke', () => {
+        let count = 0;
+        let item = new MenuItem({ shortcut: 'Ctrl+S', handler: () => { count++; } });
+        let manager = new KeyBindingManager();
+        manager.addMenu(new Menu([item]));
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 83, ctrlKey: true });
+        expect(count).to.be(1);
+        manager.dispose();
+      });
+
+      it('should not invoke a disabled item', () => {
+        let count = 0;
+        let item = new MenuItem({
+          shortcut: 'Ctrl+S', disabled: true, handler: () => { count++; }
+        });
+        let manager = new KeyBindingManager();
+        manager.addMenu(new Menu([item]));
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 83, ctrlKey: true });
+        expect(count).to.be(0);
+        manager.dispose();
+      });
+
+      it('should search the items of submenus', () => {
+        let count = 0;
+        let item = new MenuItem({ shortcut: 'Ctrl+S', handler: () => { count++; } });
+        let submenu = new Menu([item]);
+        let manager = new KeyBindingManager();
+        manager.addMenu(new Menu([new MenuItem({ text: 'More', submenu: submenu })]));
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 83, ctrlKey: true });
+        expect(count).to.be(1);
+        manager.dispose();
+      });
+
+      it('should invoke an item when its chord is completed', () => {
+        let count = 0;
+        let item = new MenuItem({ shortcut: 'Ctrl+K Ctrl+S', handler: () => { count++; } });
+        let manager = new KeyBindingManager();
+        manager.addMenu(new Menu([item]));
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 75, ctrlKey: true });
+        expect(count).to.be(0);
+        expect(manager.pendingChord).to.eql(['Ctrl+K']);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 83, ctrlKey: true });
+        expect(count).to.be(1);
+        expect(manager.pendingChord).to.eql([]);
+        manager.dispose();
+      });
+
+      it('should ignore a lone modifier within a chord', () => {
+        let count = 0;
+        let item = new MenuItem({ shortcut: 'Ctrl+K Ctrl+S', handler: () => { count++; } });
+        let manager = new KeyBindingManager();
+        manager.addMenu(new Menu([item]));
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 75, ctrlKey: true });
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 17, ctrlKey: true });
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 83, ctrlKey: true });
+        expect(count).to.be(1);
+        manager.dispose();
+      });
+
+      it('should cancel a chord on a keystroke which does not match', () => {
+        let count = 0;
+        let item = new MenuItem({ shortcut: 'Ctrl+K Ctrl+S', handler: () => { count++; } });
+        let manager = new KeyBindingManager();
+        manager.addMenu(new Menu([item]));
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 75, ctrlKey: true });
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 88, ctrlKey: true });
+        expect(manager.pendingChord).to.eql([]);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 83, ctrlKey: true });
+        expect(count).to.be(0);
+        manager.dispose();
+      });
+
+      it('should cancel a chord which is not completed in time', (done) => {
+        let count = 0;
+        let item = new MenuItem({ shortcut: 'Ctrl+K Ctrl+S', handler: () => { count++; } });
+        let manager = new KeyBindingManager({ chordTimeout: 10 });
+        manager.addMenu(new Menu([item]));
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 75, ctrlKey: true });
+        setTimeout(() => {
+          expect(manager.pendingChord).to.eql([]);
+          triggerKeyEvent(document.body, 'keydown', { keyCode: 83, ctrlKey: true });
+          expect(count).to.be(0);
+          manager.dispose();
+          done();
+        }, 50);
+      });
+
+      it('should emit the pending chord changes', () => {
+        let chords: string[][] = [];
+        let item = new MenuItem({ shortcut: 'Ctrl+K Ctrl+S', handler: () => { } });
+        let manager = new KeyBindingManager();
+        manager.pendingChordChanged.connect((sender, chord) => { chords.push(chord); });
+        manager.addMenu(new Menu([item]));
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 75, ctrlKey: true });
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 83, ctrlKey: true });
+        expect(chords).to.eql([['Ctrl+K'], []]);
+        manager.dispose();
+      });
+
+    });
+
+  });
+
+  describe('setPlatform()', () => {
+
+    let platform: Platform;
+
+    beforeEach(() => {
+      platform = getPlatform();
+    });
+
+    afterEach(() => {
+      setPlatform(platform);
+    });
+
+    it('should resolve and display the shortcuts for the same platform', () => {
+      setPlatform(Platform.Mac);
+      let item = new MenuItem({ text: 'Save', shortcut: 'Accel+S', handler: () => { } });
+      let menu = new Menu([item]);
+      let manager = new KeyBindingManager();
+      manager.addMenu(menu);
+      expect(manager.findItem('Cmd+S')).to.be(item);
+      expect(manager.findItem('Ctrl+S')).to.be(null);
+      menu.popup(0, 0);
+      let node = menu.node.querySelector('.p-Menu-itemShortcut');
+      expect(node.textContent).to.be('⌘S');
+      manager.dispose();
+      menu.dispose();
+    });
+
+  });
+
+});
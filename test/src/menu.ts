@@ -9,6 +9,14 @@
 
 import expect = require('expect.js');
 
+import {
+  sendPendingMessage
+} from 'phosphor-messaging';
+
+import {
+  IMenuClosedArgs, IMenuOptions, ITriggeredArgs, KeyBindingManager, Menu, MenuItem, commands
+} from '../../lib/index';
+
 // import {
 //   DelegateCommand
 // } from 'phosphor-command';
@@ -152,28 +160,115 @@ import expect = require('expect.js');
 // }
 
 
-// function triggerMouseEvent(node: HTMLElement, eventType: string, options: any = {}) {
-//   let event = document.createEvent('MouseEvent');
-//   event.initMouseEvent(
-//     eventType, true, true, window, 0, 0, 0,
-//     options.clientX || 0, options.clientY || 0,
-//     options.ctrlKey || false, options.altKey || false,
-//     options.shiftKey || false, options.metaKey || false,
-//     options.button || 0, options.relatedTarget || null
-//   );
-//   node.dispatchEvent(event);
-// }
-
-
-// function triggerKeyEvent(node: HTMLElement, eventType: string, options: any = {}) {
-//   // cannot use KeyboardEvent in Chrome because it sets keyCode = 0
-//   let event = document.createEvent('Event');
-//   event.initEvent(eventType, true, true);
-//   for (let prop in options) {
-//     (<any>event)[prop] = options[prop];
-//   }
-//   node.dispatchEvent(event);
-// }
+/**
+ * The options for a synthetic mouse event.
+ */
+interface IMouseEventOptions {
+  clientX?: number;
+  clientY?: number;
+  button?: number;
+}
+
+
+/**
+ * The options for a synthetic pointer event.
+ */
+interface IPointerEventOptions extends IMouseEventOptions {
+  pointerType?: string;
+}
+
+
+/**
+ * The options for a synthetic keyboard event.
+ */
+interface IKeyEventOptions {
+  keyCode?: number;
+  charCode?: number;
+  ctrlKey?: boolean;
+  shiftKey?: boolean;
+  altKey?: boolean;
+  metaKey?: boolean;
+}
+
+
+function triggerMouseEvent(node: Node, eventType: string, options: IMouseEventOptions = {}) {
+  let event = document.createEvent('MouseEvent');
+  event.initMouseEvent(
+    eventType, true, true, window, 0, 0, 0,
+    options.clientX || 0, options.clientY || 0,
+    false, false, false, false, options.button || 0, null
+  );
+  node.dispatchEvent(event);
+}
+
+
+function triggerPointerEvent(node: Node, eventType: string, options: IPointerEventOptions = {}) {
+  // not every browser supports the PointerEvent constructor
+  let event = document.createEvent('Event') as PointerEvent;
+  event.initEvent(eventType, true, true);
+  (event as any).pointerType = options.pointerType || 'touch';
+  (event as any).pointerId = 1;
+  (event as any).isPrimary = true;
+  (event as any).clientX = options.clientX || 0;
+  (event as any).clientY = options.clientY || 0;
+  node.dispatchEvent(event);
+}
+
+
+/**
+ * Tap a node at the given client position with a touch.
+ */
+function tap(node: Node, clientX: number, clientY: number): void {
+  triggerPointerEvent(node, 'pointerdown', { clientX: clientX, clientY: clientY });
+  triggerPointerEvent(node, 'pointerup', { clientX: clientX, clientY: clientY });
+  triggerMouseEvent(node, 'click', { clientX: clientX, clientY: clientY });
+}
+
+
+function triggerKeyEvent(node: Node, eventType: string, options: IKeyEventOptions = {}) {
+  // cannot use KeyboardEvent in Chrome because it sets keyCode = 0
+  let event = document.createEvent('Event') as KeyboardEvent;
+  event.initEvent(eventType, true, true);
+  event.keyCode = options.keyCode || 0;
+  event.charCode = options.charCode || 0;
+  event.ctrlKey = options.ctrlKey || false;
+  event.shiftKey = options.shiftKey || false;
+  event.altKey = options.altKey || false;
+  event.metaKey = options.metaKey || false;
+  node.dispatchEvent(event);
+}
+
+
+/**
+ * Give a node a fixed client rect, for hit testing without a layout.
+ */
+function setClientRect(node: Node, left: number, top: number, width: number, height: number): void {
+  let rect = {
+    left: left, top: top, right: left + width, bottom: top + height,
+    width: width, height: height,
+  };
+  (node as HTMLElement).getBoundingClientRect = () => rect as ClientRect;
+}
+
+
+/**
+ * Create a menu whose second of three items opens a submenu, with a
+ * fake layout in which each item is 20px tall.
+ */
+function createHoverMenu(options?: IMenuOptions): Menu {
+  let submenu = new Menu([new MenuItem({ text: 'Inner', handler: () => { } })]);
+  let menu = new Menu([
+    new MenuItem({ text: 'Copy', handler: () => { } }),
+    new MenuItem({ text: 'More', submenu: submenu }),
+    new MenuItem({ text: 'Paste', handler: () => { } }),
+  ], options);
+  menu.popup(0, 0);
+  setClientRect(menu.node, 0, 0, 100, 60);
+  setClientRect(menu.contentNode.childNodes[0], 0, 0, 100, 20);
+  setClientRect(menu.contentNode.childNodes[1], 0, 20, 100, 20);
+  setClientRect(menu.contentNode.childNodes[2], 0, 40, 100, 20);
+  return menu;
+}
 
 
 describe('phosphor-menus', () => {
@@ -186,6 +281,1153 @@ describe('phosphor-menus', () => {
 
   });
 
+  describe('Menu', () => {
+
+    describe('.defaultOptions', () => {
+
+      it('should provide the options which are not passed to a menu', () => {
+        let defaults = Menu.defaultOptions;
+        Menu.defaultOptions = { openDelay: 50, closeDelay: 60, openOnHover: false };
+        let menu = new Menu([], { closeDelay: 70 });
+        Menu.defaultOptions = defaults;
+        expect(menu.openDelay).to.be(50);
+        expect(menu.closeDelay).to.be(70);
+        expect(menu.openOnHover).to.be(false);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#constructor()', () => {
+
+      it('should accept the hover options', () => {
+        let menu = new Menu([], {
+          openDelay: 0, closeDelay: 500, submenuOverlap: 5, openOnHover: false,
+        });
+        expect(menu.openDelay).to.be(0);
+        expect(menu.closeDelay).to.be(500);
+        expect(menu.submenuOverlap).to.be(5);
+        expect(menu.openOnHover).to.be(false);
+        menu.dispose();
+      });
+
+      it('should use the default options', () => {
+        let menu = new Menu();
+        expect(menu.openDelay).to.be(Menu.defaultOptions.openDelay);
+        expect(menu.closeDelay).to.be(Menu.defaultOptions.closeDelay);
+        expect(menu.submenuOverlap).to.be(Menu.defaultOptions.submenuOverlap);
+        expect(menu.openOnHover).to.be(true);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#openDelay', () => {
+
+      it('should clamp a negative delay to zero', () => {
+        let menu = new Menu();
+        menu.openDelay = -10;
+        menu.closeDelay = -10;
+        expect(menu.openDelay).to.be(0);
+        expect(menu.closeDelay).to.be(0);
+        menu.dispose();
+      });
+
+      it('should open a hovered submenu immediately for a zero delay', () => {
+        let menu = createHoverMenu({ openDelay: 0 });
+        triggerMouseEvent(menu.node, 'mousemove', { clientX: 10, clientY: 30 });
+        expect(menu.activeIndex).to.be(1);
+        expect(menu.childMenu).to.be(menu.items[1].submenu);
+        menu.dispose();
+      });
+
+      it('should open a hovered submenu after the delay', (done) => {
+        let menu = createHoverMenu({ openDelay: 10 });
+        triggerMouseEvent(menu.node, 'mousemove', { clientX: 10, clientY: 30 });
+        expect(menu.childMenu).to.be(null);
+        setTimeout(() => {
+          expect(menu.childMenu).to.be(menu.items[1].submenu);
+          menu.dispose();
+          done();
+        }, 50);
+      });
+
+    });
+
+    describe('#childMenu', () => {
+
+      let now = 0;
+      let realNow = Date.now;
+
+      beforeEach(() => {
+        now = 10000;
+        Date.now = () => now;
+      });
+
+      afterEach(() => {
+        Date.now = realNow;
+      });
+
+      it('should stay open while the pointer moves toward it', (done) => {
+        let menu = createHoverMenu({ openDelay: 0 });
+        triggerMouseEvent(menu.node, 'mousemove', { clientX: 50, clientY: 30 });
+        let child = menu.childMenu;
+        setClientRect(child.node, 100, 0, 100, 120);
+        now += 10;
+        triggerMouseEvent(menu.node, 'mousemove', { clientX: 60, clientY: 45 });
+        expect(menu.activeIndex).to.be(1);
+        expect(menu.childMenu).to.be(child);
+        Date.now = realNow;
+        setTimeout(() => {
+          expect(menu.activeIndex).to.be(2);
+          menu.dispose();
+          done();
+        }, 150);
+      });
+
+      it('should activate a crossed item when the pointer moves away from it', () => {
+        let menu = createHoverMenu({ openDelay: 0 });
+        triggerMouseEvent(menu.node, 'mousemove', { clientX: 50, clientY: 30 });
+        setClientRect(menu.childMenu.node, 100, 0, 100, 120);
+        now += 10;
+        triggerMouseEvent(menu.node, 'mousemove', { clientX: 40, clientY: 45 });
+        expect(menu.activeIndex).to.be(2);
+        menu.dispose();
+      });
+
+      it('should activate a crossed item when the pointer moves slowly', () => {
+        let menu = createHoverMenu({ openDelay: 0 });
+        triggerMouseEvent(menu.node, 'mousemove', { clientX: 50, clientY: 30 });
+        setClientRect(menu.childMenu.node, 100, 0, 100, 120);
+        now += 1000;
+        triggerMouseEvent(menu.node, 'mousemove', { clientX: 60, clientY: 45 });
+        expect(menu.activeIndex).to.be(2);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#openOnHover', () => {
+
+      it('should not open a hovered submenu when `false`', (done) => {
+        let menu = createHoverMenu({ openDelay: 0, openOnHover: false });
+        triggerMouseEvent(menu.node, 'mousemove', { clientX: 10, clientY: 30 });
+        expect(menu.activeIndex).to.be(1);
+        setTimeout(() => {
+          expect(menu.childMenu).to.be(null);
+          menu.dispose();
+          done();
+        }, 10);
+      });
+
+    });
+
+    describe('#aboutToShow', () => {
+
+      it('should be emitted before the menu is shown', () => {
+        let attached: boolean[] = [];
+        let menu = new Menu();
+        menu.aboutToShow.connect(() => { attached.push(menu.isAttached); });
+        menu.popup(0, 0);
+        expect(attached).to.eql([false]);
+        menu.dispose();
+      });
+
+      it('should allow the items to be populated lazily', () => {
+        let menu = new Menu();
+        menu.aboutToShow.connect(() => {
+          menu.items = [new MenuItem({ text: 'One' }), new MenuItem({ text: 'Two' })];
+        });
+        menu.popup(0, 0);
+        expect(menu.contentNode.childNodes.length).to.be(2);
+        menu.dispose();
+      });
+
+      it('should not be emitted for a menu which is already open', () => {
+        let count = 0;
+        let menu = new Menu([new MenuItem({ text: 'One' })]);
+        menu.aboutToShow.connect(() => { count++; });
+        menu.popup(0, 0);
+        menu.popup(0, 0);
+        menu.open(0, 0);
+        expect(count).to.be(1);
+        menu.dispose();
+      });
+
+      it('should be emitted for an anchored menu', () => {
+        let count = 0;
+        let menu = new Menu([new MenuItem({ text: 'One' })]);
+        menu.aboutToShow.connect(() => { count++; });
+        menu.popupAt(document.body);
+        expect(count).to.be(1);
+        menu.dispose();
+      });
+
+      it('should be emitted for a submenu', () => {
+        let submenu = new Menu();
+        submenu.aboutToShow.connect(() => {
+          submenu.items = [new MenuItem({ text: 'Recent' })];
+        });
+        let menu = new Menu([new MenuItem({ text: 'Open Recent', submenu: submenu })]);
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        menu.openActiveItem();
+        expect(submenu.isAttached).to.be(true);
+        expect(submenu.contentNode.childNodes.length).to.be(1);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#scrollButtons', () => {
+
+      it('should mark an overflowing menu with `p-mod-overflow`', () => {
+        let items: MenuItem[] = [];
+        for (let i = 0; i < 50; ++i) {
+          items.push(new MenuItem({ text: `Item ${i}` }));
+        }
+        let menu = new Menu(items, {
+          scrollButtons: true,
+          boundary: { x: 0, y: 0, width: 200, height: 100 },
+        });
+        menu.popup(0, 0);
+        expect(menu.hasClass('p-mod-overflow')).to.be(true);
+        menu.dispose();
+      });
+
+      it('should not mark a menu which fits with `p-mod-overflow`', () => {
+        let items = [new MenuItem({ text: 'One' }), new MenuItem({ text: 'Two' })];
+        let menu = new Menu(items, { scrollButtons: true });
+        menu.popup(0, 0);
+        expect(menu.hasClass('p-mod-overflow')).to.be(false);
+        menu.dispose();
+      });
+
+    });
+
+    describe('.createNode()', () => {
+
+      it('should give the content node the `menu` role', () => {
+        let menu = new Menu();
+        expect(menu.contentNode.getAttribute('role')).to.be('menu');
+        menu.dispose();
+      });
+
+    });
+
+    describe('.updateItemNode()', () => {
+
+      it('should set the ARIA role and state of a normal item', () => {
+        let node = Menu.createItemNode();
+        Menu.updateItemNode(node, new MenuItem({ text: 'Copy', handler: () => { } }));
+        expect(node.getAttribute('role')).to.be('menuitem');
+        expect(node.hasAttribute('aria-checked')).to.be(false);
+        expect(node.hasAttribute('aria-disabled')).to.be(false);
+        Menu.updateItemNode(node, new MenuItem({ text: 'Copy', disabled: true }));
+        expect(node.getAttribute('aria-disabled')).to.be('true');
+      });
+
+      it('should set the ARIA role and state of a checkable item', () => {
+        let node = Menu.createItemNode();
+        let check = new MenuItem({ type: MenuItem.Check, checked: true, handler: () => { } });
+        Menu.updateItemNode(node, check);
+        expect(node.getAttribute('role')).to.be('menuitemcheckbox');
+        expect(node.getAttribute('aria-checked')).to.be('true');
+        let radio = new MenuItem({ type: MenuItem.Radio, handler: () => { } });
+        Menu.updateItemNode(node, radio);
+        expect(node.getAttribute('role')).to.be('menuitemradio');
+        expect(node.getAttribute('aria-checked')).to.be('false');
+      });
+
+      it('should set the ARIA role and state of a submenu item', () => {
+        let node = Menu.createItemNode();
+        Menu.updateItemNode(node, new MenuItem({ text: 'More', submenu: new Menu() }));
+        expect(node.getAttribute('role')).to.be('menuitem');
+        expect(node.getAttribute('aria-haspopup')).to.be('true');
+      });
+
+      it('should set the ARIA role of a separator', () => {
+        let node = Menu.createItemNode();
+        Menu.updateItemNode(node, new MenuItem({ type: MenuItem.Separator }));
+        expect(node.getAttribute('role')).to.be('separator');
+        expect(node.hasAttribute('aria-disabled')).to.be(false);
+      });
+
+    });
+
+    describe('#openActiveItem()', () => {
+
+      it('should mark the item of the open submenu as expanded', () => {
+        let submenu = new Menu([new MenuItem({ text: 'Paste', handler: () => { } })]);
+        let menu = new Menu([new MenuItem({ text: 'More', submenu: submenu })]);
+        menu.popup(0, 0);
+        let node = menu.contentNode.firstChild as HTMLElement;
+        expect(node.getAttribute('aria-expanded')).to.be('false');
+        menu.activeIndex = 0;
+        menu.openActiveItem();
+        expect(node.getAttribute('aria-expanded')).to.be('true');
+        submenu.close();
+        expect(node.getAttribute('aria-expanded')).to.be('false');
+        menu.dispose();
+      });
+
+    });
+
+    describe('#items', () => {
+
+      afterEach(() => {
+        commands.removeCommand('test:copy');
+      });
+
+      it('should display the state of a command', () => {
+        let enabled = false;
+        commands.addCommand('test:copy', {
+          execute: () => { }, isEnabled: () => enabled,
+          label: 'Copy', icon: 'copy-icon', shortcut: 'Ctrl+C'
+        });
+        let menu = new Menu([new MenuItem({ command: 'test:copy' })]);
+        menu.popup(0, 0);
+        let node = menu.contentNode.firstChild as HTMLElement;
+        expect(node.querySelector('.p-Menu-itemText').textContent).to.be('Copy');
+        expect(node.querySelector('.p-Menu-itemIcon').classList.contains('copy-icon')).to.be(true);
+        expect(node.querySelector('.p-Menu-itemShortcut').textContent).to.be('Ctrl+C');
+        expect(node.classList.contains('p-mod-disabled')).to.be(true);
+        menu.dispose();
+      });
+
+      it('should prefer the item state to the command state', () => {
+        commands.addCommand('test:copy', { execute: () => { }, label: 'Copy' });
+        let menu = new Menu([new MenuItem({ command: 'test:copy', text: 'Duplicate' })]);
+        menu.popup(0, 0);
+        let node = menu.contentNode.firstChild as HTMLElement;
+        expect(node.querySelector('.p-Menu-itemText').textContent).to.be('Duplicate');
+        menu.dispose();
+      });
+
+      it('should execute the command of a triggered item', () => {
+        let executed = 0;
+        let handled = 0;
+        commands.addCommand('test:copy', { execute: () => { executed++; } });
+        let item = new MenuItem({ command: 'test:copy', handler: () => { handled++; } });
+        let menu = new Menu([item]);
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        menu.triggerActiveItem();
+        expect(executed).to.be(1);
+        expect(handled).to.be(0);
+        menu.dispose();
+      });
+
+      it('should not trigger an item whose command is disabled', () => {
+        let executed = 0;
+        commands.addCommand('test:copy', {
+          execute: () => { executed++; }, isEnabled: () => false
+        });
+        let menu = new Menu([new MenuItem({ command: 'test:copy' })]);
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        menu.triggerActiveItem();
+        expect(executed).to.be(0);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#popup()', () => {
+
+      it('should take the focus when opened with the keyboard', () => {
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 65 });
+        menu.popup(0, 0);
+        expect(document.activeElement).to.be(menu.contentNode);
+        menu.dispose();
+      });
+
+      it('should not take the focus when opened with the mouse', () => {
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        triggerMouseEvent(document.body, 'mousedown');
+        menu.popup(0, 0);
+        expect(document.activeElement).not.to.be(menu.contentNode);
+        menu.dispose();
+      });
+
+      it('should restore the focus when it is closed', () => {
+        let input = document.createElement('input');
+        document.body.appendChild(input);
+        input.focus();
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        triggerKeyEvent(input, 'keydown', { keyCode: 65 });
+        menu.popup(0, 0);
+        expect(document.activeElement).to.be(menu.contentNode);
+        menu.close();
+        expect(document.activeElement).to.be(input);
+        menu.dispose();
+        document.body.removeChild(input);
+      });
+
+    });
+
+    describe('#exec()', () => {
+
+      it('should resolve with the triggered item after invoking it', (done) => {
+        let count = 0;
+        let item = new MenuItem({ text: 'Copy', handler: () => { count++; } });
+        let menu = new Menu([item]);
+        menu.exec(0, 0).then(result => {
+          expect(result).to.be(item);
+          expect(count).to.be(1);
+          menu.dispose();
+          done();
+        }).catch(done);
+        menu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+      });
+
+      it('should resolve with an item triggered in a submenu', (done) => {
+        let inner = new MenuItem({ text: 'Inner', handler: () => { } });
+        let submenu = new Menu([inner]);
+        let menu = new Menu([new MenuItem({ text: 'More', submenu: submenu })]);
+        menu.exec(0, 0).then(result => {
+          expect(result).to.be(inner);
+          menu.dispose();
+          done();
+        }).catch(done);
+        menu.activeIndex = 0;
+        menu.openActiveItem();
+        submenu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+      });
+
+      it('should resolve with `null` if the menu is dismissed', (done) => {
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        menu.exec(0, 0).then(result => {
+          expect(result).to.be(null);
+          menu.dispose();
+          done();
+        }).catch(done);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 27 });
+      });
+
+      it('should resolve when an already open menu is closed', (done) => {
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        menu.popup(0, 0);
+        menu.exec(0, 0).then(result => {
+          expect(result).to.be(null);
+          menu.dispose();
+          done();
+        }).catch(done);
+        menu.close();
+      });
+
+    });
+
+    describe('#popupAt()', () => {
+
+      function createAnchor(top: number, left = 10): HTMLElement {
+        let anchor = document.createElement('div');
+        anchor.style.position = 'fixed';
+        anchor.style.left = `${left}px`;
+        anchor.style.top = `${top}px`;
+        anchor.style.width = '50px';
+        anchor.style.height = '20px';
+        document.body.appendChild(anchor);
+        return anchor;
+      }
+
+      function createItems(): MenuItem[] {
+        let items: MenuItem[] = [];
+        for (let i = 0; i < 50; ++i) {
+          items.push(new MenuItem({ text: `Item ${i}` }));
+        }
+        return items;
+      }
+
+      it('should place the menu below the start of the anchor by default', () => {
+        let anchor = createAnchor(50);
+        let menu = new Menu([new MenuItem({ text: 'One' })]);
+        menu.popupAt(anchor, { offset: 4 });
+        let rect = anchor.getBoundingClientRect();
+        expect(parseFloat(menu.node.style.top)).to.be(rect.bottom + 4);
+        expect(parseFloat(menu.node.style.left)).to.be(rect.left);
+        menu.dispose();
+        document.body.removeChild(anchor);
+      });
+
+      it('should align the menu with the end of the anchor', () => {
+        let anchor = createAnchor(100, 200);
+        let menu = new Menu([new MenuItem({ text: 'One' })]);
+        menu.popupAt(anchor, { placement: 'top-end' });
+        let rect = anchor.getBoundingClientRect();
+        let size = menu.node.getBoundingClientRect();
+        expect(parseFloat(menu.node.style.top)).to.be(Math.max(0, rect.top - size.height));
+        expect(parseFloat(menu.node.style.left)).to.be(Math.max(0, rect.right - size.width));
+        menu.dispose();
+        document.body.removeChild(anchor);
+      });
+
+      it('should place the menu beside the anchor', () => {
+        let anchor = createAnchor(50);
+        let menu = new Menu([new MenuItem({ text: 'One' })]);
+        menu.popupAt(anchor, { placement: 'right-start', offset: 4 });
+        let rect = anchor.getBoundingClientRect();
+        expect(parseFloat(menu.node.style.top)).to.be(rect.top);
+        expect(parseFloat(menu.node.style.left)).to.be(rect.right + 4);
+        menu.dispose();
+        document.body.removeChild(anchor);
+      });
+
+      it('should flip the menu to the opposite side if it does not fit', () => {
+        let anchor = createAnchor(170);
+        let menu = new Menu([new MenuItem({ text: 'One' }), new MenuItem({ text: 'Two' })], {
+          boundary: { x: 0, y: 0, width: 1000, height: 200 },
+        });
+        menu.popupAt(anchor, { placement: 'bottom-start' });
+        let rect = menu.node.getBoundingClientRect();
+        expect(rect.bottom <= anchor.getBoundingClientRect().top).to.be(true);
+        menu.dispose();
+        document.body.removeChild(anchor);
+      });
+
+      it('should not flip the menu if `flip` is `false`', () => {
+        let anchor = createAnchor(170);
+        let menu = new Menu([new MenuItem({ text: 'One' }), new MenuItem({ text: 'Two' })], {
+          boundary: { x: 0, y: 0, width: 1000, height: 200 },
+        });
+        menu.popupAt(anchor, { placement: 'bottom-start', flip: false });
+        let rect = menu.node.getBoundingClientRect();
+        expect(rect.top >= anchor.getBoundingClientRect().bottom).to.be(true);
+        menu.dispose();
+        document.body.removeChild(anchor);
+      });
+
+      it('should shift the menu along the anchor to keep it in bounds', () => {
+        let anchor = createAnchor(50, 190);
+        let menu = new Menu([new MenuItem({ text: 'A long menu item' })], {
+          boundary: { x: 0, y: 0, width: 200, height: 200 },
+        });
+        menu.popupAt(anchor, { placement: 'bottom-start' });
+        let rect = menu.node.getBoundingClientRect();
+        expect(rect.right <= 200).to.be(true);
+        menu.dispose();
+        document.body.removeChild(anchor);
+      });
+
+      it('should limit the menu height to the space below the anchor', () => {
+        let anchor = createAnchor(150);
+        let menu = new Menu(createItems(), {
+          boundary: { x: 0, y: 0, width: 1000, height: 200 },
+        });
+        menu.popupAt(anchor, { placement: 'bottom-start', flip: false });
+        let rect = menu.node.getBoundingClientRect();
+        expect(rect.height <= 30).to.be(true);
+        menu.dispose();
+        document.body.removeChild(anchor);
+      });
+
+      it('should flip to the side with more space and limit the height to it', () => {
+        let anchor = createAnchor(150);
+        let menu = new Menu(createItems(), {
+          boundary: { x: 0, y: 0, width: 1000, height: 200 },
+        });
+        menu.popupAt(anchor, { placement: 'bottom-start' });
+        let rect = menu.node.getBoundingClientRect();
+        expect(rect.height <= 150).to.be(true);
+        expect(rect.bottom <= 150).to.be(true);
+        menu.dispose();
+        document.body.removeChild(anchor);
+      });
+
+    });
+
+    describe('#boundary', () => {
+
+      it('should default to `null`', () => {
+        let menu = new Menu();
+        expect(menu.boundary).to.be(null);
+        menu.dispose();
+      });
+
+      it('should be initialized from the options', () => {
+        let boundary = { x: 0, y: 0, width: 200, height: 200 };
+        let menu = new Menu([], { boundary: boundary });
+        expect(menu.boundary).to.be(boundary);
+        menu.dispose();
+      });
+
+      it('should keep a menu within a boundary rect', () => {
+        let items = [new MenuItem({ text: 'A long menu item' })];
+        let menu = new Menu(items, { boundary: { x: 0, y: 0, width: 200, height: 100 } });
+        menu.popup(190, 90);
+        let rect = menu.node.getBoundingClientRect();
+        expect(rect.right <= 200).to.be(true);
+        expect(rect.bottom <= 100).to.be(true);
+        menu.dispose();
+      });
+
+      it('should keep a menu within a boundary element', () => {
+        let host = document.createElement('div');
+        host.style.position = 'fixed';
+        host.style.left = '50px';
+        host.style.top = '50px';
+        host.style.width = '200px';
+        host.style.height = '100px';
+        document.body.appendChild(host);
+        let items = [new MenuItem({ text: 'A long menu item' })];
+        let menu = new Menu(items, { boundary: host });
+        menu.popup(240, 140);
+        let rect = menu.node.getBoundingClientRect();
+        let bounds = host.getBoundingClientRect();
+        expect(rect.right <= bounds.right).to.be(true);
+        expect(rect.bottom <= bounds.bottom).to.be(true);
+        menu.dispose();
+        document.body.removeChild(host);
+      });
+
+      it('should be used for a submenu without a boundary', () => {
+        let submenu = new Menu([new MenuItem({ text: 'A long submenu item' })]);
+        let menu = new Menu([new MenuItem({ text: 'More', submenu: submenu })], {
+          boundary: { x: 0, y: 0, width: 200, height: 100 },
+        });
+        menu.popup(100, 0, true);
+        menu.activeIndex = 0;
+        menu.openActiveItem();
+        let rect = submenu.node.getBoundingClientRect();
+        expect(submenu.isAttached).to.be(true);
+        expect(rect.right <= 200).to.be(true);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#direction', () => {
+
+      it('should add the `p-mod-rtl` class to a right-to-left menu', () => {
+        let menu = new Menu([new MenuItem({ text: 'One' })], { direction: 'rtl' });
+        menu.popup(0, 0);
+        expect(menu.hasClass('p-mod-rtl')).to.be(true);
+        menu.dispose();
+      });
+
+      it('should not add the `p-mod-rtl` class to a left-to-right menu', () => {
+        let menu = new Menu([new MenuItem({ text: 'One' })], { direction: 'ltr' });
+        menu.popup(0, 0);
+        expect(menu.hasClass('p-mod-rtl')).to.be(false);
+        menu.dispose();
+      });
+
+      it('should detect the direction of an `auto` menu from the anchor', () => {
+        let anchor = document.createElement('div');
+        anchor.style.direction = 'rtl';
+        document.body.appendChild(anchor);
+        let menu = new Menu([new MenuItem({ text: 'One' })]);
+        menu.popupAt(anchor);
+        expect(menu.hasClass('p-mod-rtl')).to.be(true);
+        menu.dispose();
+        document.body.removeChild(anchor);
+      });
+
+      it('should use the direction of the parent menu for an `auto` submenu', () => {
+        let submenu = new Menu([new MenuItem({ text: 'Inner', handler: () => { } })]);
+        let menu = new Menu([new MenuItem({ text: 'More', submenu: submenu })], {
+          direction: 'rtl',
+        });
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        menu.openActiveItem();
+        expect(submenu.hasClass('p-mod-rtl')).to.be(true);
+        menu.dispose();
+      });
+
+      it('should swap the meaning of the left and right arrow keys', () => {
+        let submenu = new Menu([new MenuItem({ text: 'Inner', handler: () => { } })]);
+        let menu = new Menu([new MenuItem({ text: 'More', submenu: submenu })], {
+          direction: 'rtl',
+        });
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 39 });  // Right Arrow
+        expect(menu.childMenu).to.be(null);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 37 });  // Left Arrow
+        expect(menu.childMenu).to.be(submenu);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 39 });  // Right Arrow
+        expect(menu.childMenu).to.be(null);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#animated', () => {
+
+      function createMenu(): Menu {
+        let menu = new Menu([new MenuItem({ text: 'One' })], { animated: true });
+        menu.node.style.transitionDuration = '10ms';
+        return menu;
+      }
+
+      function triggerEvent(node: Node, eventType: string): void {
+        let event = document.createEvent('Event');
+        event.initEvent(eventType, true, true);
+        node.dispatchEvent(event);
+      }
+
+      it('should mark an opening menu until the next frame', (done) => {
+        let menu = createMenu();
+        menu.popup(0, 0);
+        expect(menu.hasClass('p-mod-opening')).to.be(true);
+        requestAnimationFrame(() => {
+          expect(menu.hasClass('p-mod-opening')).to.be(false);
+          menu.dispose();
+          done();
+        });
+      });
+
+      it('should detach a closing menu when its transition ends', () => {
+        let count = 0;
+        let menu = createMenu();
+        menu.closed.connect(() => { count++; });
+        menu.popup(0, 0);
+        menu.close();
+        expect(menu.hasClass('p-mod-closing')).to.be(true);
+        expect(menu.isAttached).to.be(true);
+        expect(count).to.be(0);
+        triggerEvent(menu.node, 'transitionend');
+        expect(menu.hasClass('p-mod-closing')).to.be(false);
+        expect(menu.isAttached).to.be(false);
+        expect(count).to.be(1);
+        menu.dispose();
+      });
+
+      it('should detach a closing menu after a timeout', (done) => {
+        let menu = createMenu();
+        menu.popup(0, 0);
+        menu.close();
+        setTimeout(() => {
+          expect(menu.isAttached).to.be(false);
+          menu.dispose();
+          done();
+        }, 100);
+      });
+
+      it('should finish closing a menu which is opened again', () => {
+        let count = 0;
+        let menu = createMenu();
+        menu.closed.connect(() => { count++; });
+        menu.popup(0, 0);
+        menu.close();
+        menu.popup(0, 0);
+        expect(count).to.be(1);
+        expect(menu.isAttached).to.be(true);
+        expect(menu.hasClass('p-mod-closing')).to.be(false);
+        menu.dispose();
+      });
+
+      it('should close immediately for a menu without a transition', () => {
+        let menu = new Menu([new MenuItem({ text: 'One' })], { animated: true });
+        menu.popup(0, 0);
+        menu.close();
+        expect(menu.isAttached).to.be(false);
+        menu.dispose();
+      });
+
+      it('should close immediately if the user prefers reduced motion', () => {
+        let matchMedia = window.matchMedia;
+        window.matchMedia = (query: string) => {
+          return { matches: query === '(prefers-reduced-motion: reduce)' } as MediaQueryList;
+        };
+        let menu = createMenu();
+        menu.popup(0, 0);
+        expect(menu.hasClass('p-mod-opening')).to.be(false);
+        menu.close();
+        window.matchMedia = matchMedia;
+        expect(menu.isAttached).to.be(false);
+        menu.dispose();
+      });
+
+      it('should close immediately when `false`', () => {
+        let menu = createMenu();
+        menu.animated = false;
+        menu.popup(0, 0);
+        expect(menu.hasClass('p-mod-opening')).to.be(false);
+        menu.close();
+        expect(menu.isAttached).to.be(false);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#keepOpen', () => {
+
+      function createCheckItem(keepOpen: boolean): MenuItem {
+        return new MenuItem({
+          type: MenuItem.Check,
+          text: 'Word Wrap',
+          keepOpen: keepOpen,
+          handler: item => { item.checked = !item.checked; },
+        });
+      }
+
+      it('should leave the menu open for an item which keeps it open', () => {
+        let count = 0;
+        let item = createCheckItem(true);
+        let menu = new Menu([item]);
+        menu.triggered.connect(() => { count++; });
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(count).to.be(1);
+        expect(item.checked).to.be(true);
+        expect(menu.isAttached).to.be(true);
+        sendPendingMessage(menu);
+        let node = menu.contentNode.firstChild as HTMLElement;
+        expect(node.classList.contains('p-mod-checked')).to.be(true);
+        menu.dispose();
+      });
+
+      it('should be the default for the items of the menu', () => {
+        let item = createCheckItem(null);
+        let menu = new Menu([item], { keepOpen: true });
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(item.checked).to.be(true);
+        expect(menu.isAttached).to.be(true);
+        menu.dispose();
+      });
+
+      it('should be overridden by the items', () => {
+        let item = createCheckItem(false);
+        let menu = new Menu([item], { keepOpen: true });
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(item.checked).to.be(true);
+        expect(menu.isAttached).to.be(false);
+        menu.dispose();
+      });
+
+      it('should leave the menu hierarchy open for a submenu item', () => {
+        let item = createCheckItem(true);
+        let submenu = new Menu([item]);
+        let menu = new Menu([new MenuItem({ text: 'View', submenu: submenu })]);
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        menu.openActiveItem();
+        submenu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(item.checked).to.be(true);
+        expect(menu.isAttached).to.be(true);
+        expect(submenu.isAttached).to.be(true);
+        menu.dispose();
+      });
+
+      it('should not resolve the promise of `exec()`', (done) => {
+        let item = createCheckItem(true);
+        let menu = new Menu([item]);
+        let closed = false;
+        menu.exec(0, 0).then(result => {
+          expect(closed).to.be(true);
+          expect(result).to.be(null);
+          menu.dispose();
+          done();
+        }).catch(done);
+        menu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        setTimeout(() => {
+          closed = true;
+          menu.close();
+        }, 10);
+      });
+
+    });
+
+    describe('#virtualized', () => {
+
+      function createItems(): MenuItem[] {
+        let items: MenuItem[] = [];
+        for (let i = 0; i < 1000; ++i) {
+          let text = i === 900 ? 'Zeta' : 'Symbol ' + i;
+          items.push(new MenuItem({ text: text, handler: () => { } }));
+        }
+        return items;
+      }
+
+      it('should render only a window of the item nodes', () => {
+        let menu = new Menu(createItems(), { virtualized: true });
+        menu.popup(0, 0);
+        let count = menu.contentNode.childNodes.length;
+        expect(count > 0).to.be(true);
+        expect(count < 1000).to.be(true);
+        menu.dispose();
+      });
+
+      it('should render every item node when `false`', () => {
+        let menu = new Menu(createItems());
+        menu.popup(0, 0);
+        expect(menu.contentNode.childNodes.length).to.be(1000);
+        menu.dispose();
+      });
+
+      it('should navigate to the unrendered items with the keyboard', () => {
+        let menu = new Menu(createItems(), { virtualized: true });
+        menu.popup(0, 0);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 35 });  // End
+        expect(menu.activeIndex).to.be(999);
+        triggerKeyEvent(document.body, 'keypress', { charCode: 122 });  // 'z' key
+        expect(menu.activeIndex).to.be(900);
+        menu.dispose();
+      });
+
+      it('should render the node of the active item', () => {
+        let menu = new Menu(createItems(), {
+          virtualized: true,
+          boundary: { x: 0, y: 0, width: 200, height: 100 },
+        });
+        menu.popup(0, 0);
+        menu.activeIndex = 900;
+        let node = menu.node.querySelector('.p-mod-active');
+        expect(node.textContent).to.contain('Zeta');
+        menu.dispose();
+      });
+
+    });
+
+    describe('#handleEvent()', () => {
+
+      it('should navigate the leaf menu with Home, End, PageUp and PageDown', () => {
+        let items: MenuItem[] = [];
+        for (let i = 0; i < 15; ++i) {
+          items.push(new MenuItem({ text: 'Item ' + i, handler: () => { } }));
+        }
+        let menu = new Menu(items);
+        menu.popup(0, 0);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 35 });  // End
+        expect(menu.activeIndex).to.be(14);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 36 });  // Home
+        expect(menu.activeIndex).to.be(0);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 34 });  // Page Down
+        expect(menu.activeIndex > 0).to.be(true);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 33 });  // Page Up
+        expect(menu.activeIndex).to.be(0);
+        menu.dispose();
+      });
+
+      it('should trigger a tapped item', () => {
+        let count = 0;
+        let menu = createHoverMenu();
+        menu.items[0].handler = () => { count++; };
+        tap(menu.node, 10, 10);
+        expect(count).to.be(1);
+        menu.dispose();
+      });
+
+      it('should open the submenu of a tapped item', () => {
+        let menu = createHoverMenu();
+        tap(menu.node, 10, 30);
+        expect(menu.activeIndex).to.be(1);
+        expect(menu.childMenu).to.be(menu.items[1].submenu);
+        menu.dispose();
+      });
+
+      it('should ignore a touch which moves before it is released', () => {
+        let count = 0;
+        let menu = createHoverMenu();
+        menu.items[0].handler = () => { count++; };
+        triggerPointerEvent(menu.node, 'pointerdown', { clientX: 10, clientY: 10 });
+        triggerPointerEvent(menu.node, 'pointerup', { clientX: 10, clientY: 50 });
+        triggerMouseEvent(menu.node, 'click', { clientX: 10, clientY: 50 });
+        expect(count).to.be(0);
+        menu.dispose();
+      });
+
+      it('should add the `p-mod-touch` class when opened after a touch', () => {
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        triggerPointerEvent(document.body, 'pointerdown');
+        menu.popup(0, 0);
+        expect(menu.hasClass('p-mod-touch')).to.be(true);
+        menu.dispose();
+        triggerPointerEvent(document.body, 'pointerdown', { pointerType: 'mouse' });
+      });
+
+    });
+
+    describe('#closed', () => {
+
+      function createMenus(): Menu {
+        let submenu = new Menu([new MenuItem({ text: 'Inner', handler: () => { } })]);
+        return new Menu([
+          new MenuItem({ text: 'Copy', handler: () => { } }),
+          new MenuItem({ text: 'More', submenu: submenu }),
+        ]);
+      }
+
+      function logClosed(menu: Menu): IMenuClosedArgs[] {
+        let args: IMenuClosedArgs[] = [];
+        menu.closed.connect((sender, a) => { args.push(a); });
+        return args;
+      }
+
+      it('should report a triggered item', () => {
+        let menu = createMenus();
+        let args = logClosed(menu);
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(args).to.eql([{ reason: 'trigger', item: menu.items[0] }]);
+        menu.dispose();
+      });
+
+      it('should report the reason of the parent menu for a submenu', () => {
+        let menu = createMenus();
+        let submenu = menu.items[1].submenu;
+        let args = logClosed(submenu);
+        menu.popup(0, 0);
+        menu.activeIndex = 1;
+        menu.openActiveItem();
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(args).to.eql([{ reason: 'trigger', item: submenu.items[0] }]);
+        expect(menu.isAttached).to.be(false);
+        menu.dispose();
+      });
+
+      it('should report the Escape key', () => {
+        let menu = createMenus();
+        let args = logClosed(menu);
+        menu.popup(0, 0);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 27 });
+        expect(args).to.eql([{ reason: 'escape', item: null }]);
+        menu.dispose();
+      });
+
+      it('should report a mouse press outside of the menu', () => {
+        let menu = createMenus();
+        let args = logClosed(menu);
+        menu.popup(0, 0);
+        triggerMouseEvent(document.body, 'mousedown', { clientX: 5000, clientY: 5000 });
+        expect(args).to.eql([{ reason: 'outside', item: null }]);
+        menu.dispose();
+      });
+
+      it('should report a submenu closed by navigation', () => {
+        let menu = createMenus();
+        let submenu = menu.items[1].submenu;
+        let args = logClosed(submenu);
+        menu.popup(0, 0);
+        menu.activeIndex = 1;
+        menu.openActiveItem();
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 37 });  // Left Arrow
+        expect(args).to.eql([{ reason: 'navigate', item: null }]);
+        expect(menu.isAttached).to.be(true);
+        menu.dispose();
+      });
+
+      it('should report a call to `close()`', () => {
+        let menu = createMenus();
+        let args = logClosed(menu);
+        menu.popup(0, 0);
+        menu.close();
+        menu.popup(0, 0);
+        menu.close('menubar');
+        expect(args).to.eql([
+          { reason: 'api', item: null }, { reason: 'menubar', item: null }
+        ]);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#triggered', () => {
+
+      it('should report the item and the path to it', () => {
+        let inner = new MenuItem({ text: 'Inner', handler: () => { } });
+        let submenu = new Menu([inner]);
+        let more = new MenuItem({ text: 'More', submenu: submenu });
+        let menu = new Menu([more]);
+        let rootArgs: ITriggeredArgs[] = [];
+        let childArgs: ITriggeredArgs[] = [];
+        menu.triggered.connect((sender, args) => { rootArgs.push(args); });
+        submenu.triggered.connect((sender, args) => { childArgs.push(args); });
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        menu.openActiveItem();
+        submenu.activeIndex = 0;
+        submenu.triggerActiveItem();
+        expect(rootArgs.length).to.be(1);
+        expect(rootArgs[0].item).to.be(inner);
+        expect(rootArgs[0].path).to.eql([more]);
+        expect(childArgs.length).to.be(1);
+        expect(childArgs[0].path).to.eql([]);
+        menu.dispose();
+      });
+
+      it('should report a mouse trigger', () => {
+        let sources: string[] = [];
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        menu.triggered.connect((sender, args) => { sources.push(args.source); });
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        triggerMouseEvent(menu.contentNode.firstChild, 'mouseup');
+        expect(sources).to.eql(['mouse']);
+        menu.dispose();
+      });
+
+      it('should report a keyboard trigger', () => {
+        let sources: string[] = [];
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        menu.triggered.connect((sender, args) => { sources.push(args.source); });
+        menu.popup(0, 0);
+        menu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(sources).to.eql(['keyboard']);
+        menu.dispose();
+      });
+
+      it('should report a mnemonic trigger', () => {
+        let sources: string[] = [];
+        let menu = new Menu([
+          new MenuItem({ text: '&Copy', handler: () => { } }),
+          new MenuItem({ text: 'Pa&ste', handler: () => { } }),
+        ]);
+        menu.triggered.connect((sender, args) => { sources.push(args.source); });
+        menu.popup(0, 0);
+        triggerKeyEvent(document.body, 'keypress', { charCode: 115 });  // 's' key
+        expect(menu.activeIndex).to.be(1);
+        expect(sources).to.eql([]);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(sources).to.eql(['mnemonic']);
+        menu.dispose();
+      });
+
+      it('should report a keyboard trigger after leaving a mnemonic item', () => {
+        let sources: string[] = [];
+        let menu = new Menu([
+          new MenuItem({ text: '&Copy', handler: () => { } }),
+          new MenuItem({ text: 'Pa&ste', handler: () => { } }),
+        ]);
+        menu.triggered.connect((sender, args) => { sources.push(args.source); });
+        menu.popup(0, 0);
+        triggerKeyEvent(document.body, 'keypress', { charCode: 115 });  // 's' key
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 38 });
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(sources).to.eql(['keyboard']);
+        menu.dispose();
+      });
+
+      it('should report a shortcut trigger', () => {
+        let sources: string[] = [];
+        let menu = new Menu([new MenuItem({ shortcut: 'Ctrl+S', handler: () => { } })]);
+        menu.triggered.connect((sender, args) => { sources.push(args.source); });
+        let manager = new KeyBindingManager();
+        manager.addMenu(menu);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 83, ctrlKey: true });
+        expect(sources).to.eql(['shortcut']);
+        manager.dispose();
+        menu.dispose();
+      });
+
+    });
+
+  });
+
   // describe('Menu', () => {
 
   //   describe('.fromTemplate', () => {
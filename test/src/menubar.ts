@@ -9,6 +9,18 @@
 
 import expect = require('expect.js');
 
+import {
+  hasPendingMessages, sendMessage, sendPendingMessage
+} from 'phosphor-messaging';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  IMenuBarOptions, ITriggeredArgs, Menu, MenuBar, MenuItem, commands
+} from '../../lib/index';
+
 // import {
 //   DelegateCommand
 // } from 'phosphor-command';
@@ -240,28 +252,41 @@ import expect = require('expect.js');
 // }
 
 
-// function triggerMouseEvent(node: HTMLElement, eventType: string, options: any = {}) {
-//   let event = document.createEvent('MouseEvent');
-//   event.initMouseEvent(
-//     eventType, true, true, window, 0, 0, 0,
-//     options.clientX || 0, options.clientY || 0,
-//     options.ctrlKey || false, options.altKey || false,
-//     options.shiftKey || false, options.metaKey || false,
-//     options.button || 0, options.relatedTarget || null
-//   );
-//   node.dispatchEvent(event);
-// }
+/**
+ * The options for a synthetic mouse event.
+ */
+interface IMouseEventOptions {
+  clientX?: number;
+  clientY?: number;
+}
 
 
-// function triggerKeyEvent(node: HTMLElement, eventType: string, options: any = {}) {
-//   // cannot use KeyboardEvent in Chrome because it sets keyCode = 0
-//   let event = document.createEvent('Event');
-//   event.initEvent(eventType, true, true);
-//   for (let prop in options) {
-//     (<any>event)[prop] = options[prop];
-//   }
-//   node.dispatchEvent(event);
-// }
+/**
+ * The options for a synthetic keyboard event.
+ */
+interface IKeyEventOptions {
+  keyCode?: number;
+}
+
+
+function triggerMouseEvent(node: Node, eventType: string, options: IMouseEventOptions = {}) {
+  let event = document.createEvent('MouseEvent');
+  event.initMouseEvent(
+    eventType, true, true, window, 0, 0, 0,
+    options.clientX || 0, options.clientY || 0,
+    false, false, false, false, 0, null
+  );
+  node.dispatchEvent(event);
+}
+
+
+function triggerKeyEvent(node: Node, eventType: string, options: IKeyEventOptions = {}) {
+  // cannot use KeyboardEvent in Chrome because it sets keyCode = 0
+  let event = document.createEvent('Event') as KeyboardEvent;
+  event.initEvent(eventType, true, true);
+  event.keyCode = options.keyCode || 0;
+  node.dispatchEvent(event);
+}
 
 
 describe('phosphor-menus', () => {
@@ -274,6 +299,303 @@ describe('phosphor-menus', () => {
 
   });
 
+  describe('MenuBar', () => {
+
+    describe('.createNode()', () => {
+
+      it('should give the content node the `menubar` role', () => {
+        let bar = new MenuBar();
+        expect(bar.contentNode.getAttribute('role')).to.be('menubar');
+        bar.dispose();
+      });
+
+    });
+
+    describe('.updateItemNode()', () => {
+
+      it('should set the ARIA role and state of an item', () => {
+        let node = MenuBar.createItemNode();
+        MenuBar.updateItemNode(node, new MenuItem({ text: 'File', submenu: new Menu() }));
+        expect(node.getAttribute('role')).to.be('menuitem');
+        expect(node.getAttribute('aria-haspopup')).to.be('true');
+        expect(node.hasAttribute('aria-disabled')).to.be(false);
+        MenuBar.updateItemNode(node, new MenuItem({ text: 'File', disabled: true }));
+        expect(node.hasAttribute('aria-haspopup')).to.be(false);
+        expect(node.getAttribute('aria-disabled')).to.be('true');
+        MenuBar.updateItemNode(node, new MenuItem({ type: MenuItem.Separator }));
+        expect(node.getAttribute('role')).to.be('separator');
+      });
+
+    });
+
+    describe('#boundary', () => {
+
+      it('should be initialized from the options', () => {
+        let boundary = { x: 0, y: 0, width: 200, height: 200 };
+        let bar = new MenuBar([], { boundary: boundary });
+        expect(bar.boundary).to.be(boundary);
+        bar.dispose();
+      });
+
+      it('should keep an opened menu within the boundary', () => {
+        let menu = new Menu([new MenuItem({ text: 'A long menu item', handler: () => { } })]);
+        let bar = new MenuBar([new MenuItem({ text: 'Edit', submenu: menu })], {
+          boundary: { x: 0, y: 0, width: 50, height: 200 },
+        });
+        bar.attach(document.body);
+        sendMessage(bar, Widget.MsgUpdateRequest);
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        let rect = menu.node.getBoundingClientRect();
+        expect(menu.isAttached).to.be(true);
+        expect(rect.left >= 0).to.be(true);
+        expect(rect.right <= 50 || rect.left === 0).to.be(true);
+        bar.dispose();
+      });
+
+    });
+
+    describe('#direction', () => {
+
+      function createBar(options?: IMenuBarOptions): MenuBar {
+        return new MenuBar([
+          new MenuItem({ text: 'File', submenu: new Menu() }),
+          new MenuItem({ text: 'Edit', submenu: new Menu() }),
+        ], options);
+      }
+
+      it('should add the `p-mod-rtl` class to a right-to-left menu bar', () => {
+        let bar = createBar({ direction: 'rtl' });
+        bar.attach(document.body);
+        expect(bar.hasClass('p-mod-rtl')).to.be(true);
+        bar.direction = 'ltr';
+        expect(bar.hasClass('p-mod-rtl')).to.be(false);
+        bar.dispose();
+      });
+
+      it('should detect the direction of an `auto` menu bar from `dir`', () => {
+        let bar = createBar();
+        bar.node.dir = 'rtl';
+        bar.attach(document.body);
+        expect(bar.hasClass('p-mod-rtl')).to.be(true);
+        bar.dispose();
+      });
+
+      it('should open right-to-left menus', () => {
+        let bar = createBar({ direction: 'rtl' });
+        bar.attach(document.body);
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        expect(bar.childMenu.hasClass('p-mod-rtl')).to.be(true);
+        bar.dispose();
+      });
+
+      it('should swap the meaning of the left and right arrow keys', () => {
+        let bar = createBar({ direction: 'rtl' });
+        bar.attach(document.body);
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 37 });  // Left Arrow
+        expect(bar.activeIndex).to.be(1);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 39 });  // Right Arrow
+        expect(bar.activeIndex).to.be(0);
+        bar.dispose();
+      });
+
+    });
+
+    describe('#activeIndex', () => {
+
+      it('should make the first selectable item the tab stop when idle', () => {
+        let bar = new MenuBar([
+          new MenuItem({ text: 'File', submenu: new Menu(), disabled: true }),
+          new MenuItem({ text: 'Edit', submenu: new Menu() }),
+          new MenuItem({ text: 'View', submenu: new Menu() }),
+        ]);
+        bar.attach(document.body);
+        sendMessage(bar, Widget.MsgUpdateRequest);
+        let nodes = bar.contentNode.children;
+        let tabIndexes = () => [0, 1, 2].map(i => (nodes[i] as HTMLElement).tabIndex);
+        expect(tabIndexes()).to.eql([-1, 0, -1]);
+        bar.activeIndex = 2;
+        expect(tabIndexes()).to.eql([-1, -1, 0]);
+        bar.activeIndex = -1;
+        expect(tabIndexes()).to.eql([-1, 0, -1]);
+        sendMessage(bar, Widget.MsgUpdateRequest);
+        expect(tabIndexes()).to.eql([-1, 0, -1]);
+        bar.dispose();
+      });
+
+    });
+
+    describe('#openActiveItem()', () => {
+
+      it('should emit the `aboutToShow` signal of the menu', () => {
+        let menu = new Menu();
+        menu.aboutToShow.connect(() => {
+          menu.items = [new MenuItem({ text: 'Copy', handler: () => { } })];
+        });
+        let bar = new MenuBar([new MenuItem({ text: 'Edit', submenu: menu })]);
+        bar.attach(document.body);
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        expect(menu.isAttached).to.be(true);
+        expect(menu.contentNode.childNodes.length).to.be(1);
+        bar.dispose();
+      });
+
+      it('should focus the menu when opened with the keyboard', () => {
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        let bar = new MenuBar([new MenuItem({ text: 'Edit', submenu: menu })]);
+        bar.attach(document.body);
+        sendMessage(bar, Widget.MsgUpdateRequest);
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 65 });
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        expect(document.activeElement).to.be(menu.contentNode);
+        bar.dispose();
+      });
+
+      it('should mark the item of the open menu as expanded', () => {
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        let bar = new MenuBar([new MenuItem({ text: 'Edit', submenu: menu })]);
+        bar.attach(document.body);
+        sendMessage(bar, Widget.MsgUpdateRequest);
+        let node = bar.contentNode.firstChild as HTMLElement;
+        expect(node.getAttribute('aria-expanded')).to.be('false');
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        expect(node.getAttribute('aria-expanded')).to.be('true');
+        bar.dispose();
+      });
+
+      it('should not move the focus when opened with the mouse', () => {
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        let bar = new MenuBar([new MenuItem({ text: 'Edit', submenu: menu })]);
+        bar.attach(document.body);
+        sendMessage(bar, Widget.MsgUpdateRequest);
+        triggerMouseEvent(document.body, 'mousedown');
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        expect(menu.isAttached).to.be(true);
+        expect(bar.node.contains(document.activeElement)).to.be(false);
+        expect(menu.node.contains(document.activeElement)).to.be(false);
+        bar.dispose();
+      });
+
+    });
+
+    describe('#childMenu', () => {
+
+      it('should report a menu closed by switching menus', () => {
+        let reasons: string[] = [];
+        let file = new Menu([new MenuItem({ text: 'New', handler: () => { } })]);
+        let edit = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        file.closed.connect((sender, args) => { reasons.push(args.reason); });
+        let bar = new MenuBar([
+          new MenuItem({ text: 'File', submenu: file }),
+          new MenuItem({ text: 'Edit', submenu: edit }),
+        ]);
+        bar.attach(document.body);
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 39 });  // Right Arrow
+        expect(bar.childMenu).to.be(edit);
+        expect(reasons).to.eql(['menubar']);
+        bar.dispose();
+      });
+
+      it('should report a mouse press outside of the menu bar', () => {
+        let reasons: string[] = [];
+        let menu = new Menu([new MenuItem({ text: 'Copy', handler: () => { } })]);
+        menu.closed.connect((sender, args) => { reasons.push(args.reason); });
+        let bar = new MenuBar([new MenuItem({ text: 'Edit', submenu: menu })]);
+        bar.attach(document.body);
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        triggerMouseEvent(document.body, 'mousedown', { clientX: 5000, clientY: 5000 });
+        expect(bar.childMenu).to.be(null);
+        expect(reasons).to.eql(['outside']);
+        bar.dispose();
+      });
+
+    });
+
+    describe('#triggered', () => {
+
+      it('should report the item, the path to it and the source', () => {
+        let copy = new MenuItem({ text: 'Copy', handler: () => { } });
+        let menu = new Menu([copy]);
+        let edit = new MenuItem({ text: 'Edit', submenu: menu });
+        let bar = new MenuBar([edit]);
+        let args: ITriggeredArgs[] = [];
+        bar.triggered.connect((sender, a) => { args.push(a); });
+        bar.attach(document.body);
+        bar.activeIndex = 0;
+        bar.openActiveItem();
+        menu.activeIndex = 0;
+        triggerKeyEvent(document.body, 'keydown', { keyCode: 13 });
+        expect(args.length).to.be(1);
+        expect(args[0].item).to.be(copy);
+        expect(args[0].path).to.eql([edit]);
+        expect(args[0].source).to.be('keyboard');
+        bar.dispose();
+      });
+
+    });
+
+    describe('#items', () => {
+
+      afterEach(() => {
+        commands.removeCommand('test:view');
+      });
+
+      it('should display the label of a command', () => {
+        commands.addCommand('test:view', { execute: () => { }, label: '&View' });
+        let item = new MenuItem({ command: 'test:view', submenu: new Menu() });
+        let bar = new MenuBar([item]);
+        bar.attach(document.body);
+        sendMessage(bar, Widget.MsgUpdateRequest);
+        let text = bar.node.querySelector('.p-MenuBar-itemText');
+        expect(text.textContent).to.be('View');
+        bar.dispose();
+      });
+
+      it('should update when a command changes while attached', () => {
+        let enabled = true;
+        commands.addCommand('test:view', {
+          execute: () => { }, isEnabled: () => enabled, label: 'View'
+        });
+        let item = new MenuItem({ command: 'test:view' });
+        let bar = new MenuBar([item]);
+        bar.attach(document.body);
+        sendPendingMessage(bar);
+        let node = bar.contentNode.firstChild as HTMLElement;
+        expect(node.classList.contains('p-mod-disabled')).to.be(false);
+        enabled = false;
+        commands.notifyCommandChanged('test:view');
+        expect(hasPendingMessages(bar)).to.be(true);
+        sendPendingMessage(bar);
+        expect(node.classList.contains('p-mod-disabled')).to.be(true);
+        expect(node.getAttribute('aria-disabled')).to.be('true');
+        bar.dispose();
+      });
+
+      it('should not update for a command change while detached', () => {
+        commands.addCommand('test:view', { execute: () => { }, label: 'View' });
+        let bar = new MenuBar([new MenuItem({ command: 'test:view' })]);
+        bar.attach(document.body);
+        sendPendingMessage(bar);
+        bar.detach();
+        commands.notifyCommandChanged('test:view');
+        expect(hasPendingMessages(bar)).to.be(false);
+        bar.dispose();
+      });
+
+    });
+
+  });
+
   // describe('MenuBar', () => {
 
   //   describe('#constructor()', () => {
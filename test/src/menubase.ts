@@ -9,6 +9,10 @@
 
 import expect = require('expect.js');
 
+import {
+  IActiveIndexChangedArgs, Menu, MenuItem
+} from '../../lib/index';
+
 // import {
 //   Property
 // } from 'phosphor-properties';
@@ -55,6 +59,26 @@ import expect = require('expect.js');
 // }
 
 
+/**
+ * Create a menu with the given item texts.
+ *
+ * A `'-'` creates a separator and a leading `'!'` a disabled item.
+ */
+function createMenu(texts: string[]): Menu {
+  return new Menu(texts.map(text => {
+    if (text === '-') {
+      return new MenuItem({ type: MenuItem.Separator });
+    }
+    let disabled = text[0] === '!';
+    return new MenuItem({
+      text: disabled ? text.slice(1) : text,
+      disabled: disabled,
+      handler: () => { },
+    });
+  }));
+}
+
+
 describe('phosphor-menus', () => {
 
   describe('test stub', () => {
@@ -65,6 +89,220 @@ describe('phosphor-menus', () => {
 
   });
 
+  describe('AbstractMenu', () => {
+
+    describe('#activeIndexChanged', () => {
+
+      it('should be emitted with the old and new index and item', () => {
+        let args: IActiveIndexChangedArgs[] = [];
+        let menu = createMenu(['One', 'Two']);
+        menu.activeIndexChanged.connect((sender, a) => { args.push(a); });
+        menu.activeIndex = 0;
+        menu.activeIndex = 1;
+        expect(args).to.eql([
+          { oldIndex: -1, newIndex: 0, oldItem: null, newItem: menu.items[0] },
+          { oldIndex: 0, newIndex: 1, oldItem: menu.items[0], newItem: menu.items[1] },
+        ]);
+        menu.dispose();
+      });
+
+      it('should not be emitted if the active index does not change', () => {
+        let count = 0;
+        let menu = createMenu(['One', '-', '!Three']);
+        menu.activeIndex = 0;
+        menu.activeIndexChanged.connect(() => { count++; });
+        menu.activeIndex = 0;
+        menu.activateFirstItem();
+        expect(count).to.be(0);
+        menu.activeIndex = -1;
+        menu.activeIndex = 1;
+        menu.activeIndex = 2;
+        expect(count).to.be(1);
+        menu.dispose();
+      });
+
+      it('should be emitted when the items are replaced', () => {
+        let args: IActiveIndexChangedArgs[] = [];
+        let menu = createMenu(['One', 'Two']);
+        let old = menu.items[1];
+        menu.activeIndex = 1;
+        menu.activeIndexChanged.connect((sender, a) => { args.push(a); });
+        menu.items = [new MenuItem({ text: 'Three', handler: () => { } })];
+        expect(args).to.eql([{ oldIndex: 1, newIndex: -1, oldItem: old, newItem: null }]);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#activateFirstItem()', () => {
+
+      it('should activate the first selectable item', () => {
+        let menu = createMenu(['-', '!One', 'Two', 'Three']);
+        menu.activeIndex = 3;
+        menu.activateFirstItem();
+        expect(menu.activeIndex).to.be(2);
+        menu.dispose();
+      });
+
+      it('should clear the active index if no item is selectable', () => {
+        let menu = createMenu(['-', '!One']);
+        menu.activateFirstItem();
+        expect(menu.activeIndex).to.be(-1);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#activateLastItem()', () => {
+
+      it('should activate the last selectable item', () => {
+        let menu = createMenu(['One', 'Two', '!Three', '-']);
+        menu.activateLastItem();
+        expect(menu.activeIndex).to.be(1);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#activateNextPage()', () => {
+
+      it('should move forward by one page', () => {
+        let texts: string[] = [];
+        for (let i = 0; i < 25; ++i) {
+          texts.push('Item ' + i);
+        }
+        let menu = createMenu(texts);
+        menu.activateNextPage();
+        expect(menu.activeIndex).to.be(10);
+        menu.activateNextPage();
+        expect(menu.activeIndex).to.be(20);
+        menu.activateNextPage();
+        expect(menu.activeIndex).to.be(24);
+        menu.dispose();
+      });
+
+      it('should stop on the last selectable item within the page', () => {
+        let texts = ['Zero', 'One', 'Two', '-', '!Four', '-', '-', '-', '-', '-', '-', 'Eleven'];
+        let menu = createMenu(texts);
+        menu.activeIndex = 0;
+        menu.activateNextPage();
+        expect(menu.activeIndex).to.be(2);
+        menu.dispose();
+      });
+
+      it('should continue past a page with no selectable item', () => {
+        let texts = ['Zero', '-', '-', '-', '-', '-', '-', '-', '-', '-', '-', '-', 'Twelve'];
+        let menu = createMenu(texts);
+        menu.activeIndex = 0;
+        menu.activateNextPage();
+        expect(menu.activeIndex).to.be(12);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#activatePreviousPage()', () => {
+
+      it('should move backward by one page', () => {
+        let texts: string[] = [];
+        for (let i = 0; i < 25; ++i) {
+          texts.push('Item ' + i);
+        }
+        let menu = createMenu(texts);
+        menu.activeIndex = 24;
+        menu.activatePreviousPage();
+        expect(menu.activeIndex).to.be(14);
+        menu.activatePreviousPage();
+        expect(menu.activeIndex).to.be(4);
+        menu.activatePreviousPage();
+        expect(menu.activeIndex).to.be(0);
+        menu.dispose();
+      });
+
+      it('should not wrap around at the first item', () => {
+        let menu = createMenu(['-', 'One', 'Two']);
+        menu.activeIndex = 1;
+        menu.activatePreviousPage();
+        expect(menu.activeIndex).to.be(1);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#activateTypeAheadItem()', () => {
+
+      let now = 0;
+      let realNow = Date.now;
+
+      beforeEach(() => {
+        now = 10000;
+        Date.now = () => now;
+      });
+
+      afterEach(() => {
+        Date.now = realNow;
+      });
+
+      it('should activate the first item which starts with the typed text', () => {
+        let menu = createMenu(['Copy', 'Cut', 'Paste']);
+        menu.activateTypeAheadItem('C');
+        menu.activateTypeAheadItem('u');
+        expect(menu.activeIndex).to.be(1);
+        menu.dispose();
+      });
+
+      it('should ignore the mnemonic marker and skip unselectable items', () => {
+        let menu = createMenu(['!Cut', '-', 'C&ut', 'Copy']);
+        menu.activateTypeAheadItem('c');
+        menu.activateTypeAheadItem('u');
+        expect(menu.activeIndex).to.be(2);
+        menu.dispose();
+      });
+
+      it('should cycle through the matches of a repeated character', () => {
+        let menu = createMenu(['Copy', 'Paste', 'Cut', 'Close']);
+        menu.activateTypeAheadItem('c');
+        expect(menu.activeIndex).to.be(0);
+        menu.activateTypeAheadItem('c');
+        expect(menu.activeIndex).to.be(2);
+        menu.activateTypeAheadItem('c');
+        expect(menu.activeIndex).to.be(3);
+        menu.activateTypeAheadItem('c');
+        expect(menu.activeIndex).to.be(0);
+        menu.dispose();
+      });
+
+      it('should start a new search after the timeout', () => {
+        let menu = createMenu(['Copy', 'Cut', 'Undo']);
+        menu.activateTypeAheadItem('c');
+        now += 500;
+        menu.activateTypeAheadItem('u');
+        expect(menu.activeIndex).to.be(1);
+        now += 1500;
+        menu.activateTypeAheadItem('u');
+        expect(menu.activeIndex).to.be(2);
+        menu.dispose();
+      });
+
+      it('should fall back to the mnemonic of a single character', () => {
+        let menu = createMenu(['Copy', 'Pa&ste']);
+        menu.activateTypeAheadItem('s');
+        expect(menu.activeIndex).to.be(1);
+        menu.dispose();
+      });
+
+      it('should keep the active item if a longer text does not match', () => {
+        let menu = createMenu(['Copy', 'Cut']);
+        menu.activateTypeAheadItem('c');
+        menu.activateTypeAheadItem('x');
+        expect(menu.activeIndex).to.be(0);
+        menu.dispose();
+      });
+
+    });
+
+  });
+
   // describe('MenuBase', () => {
 
   //   describe('.itemsProperty', () => {
@@ -9,6 +9,10 @@
 
 import expect = require('expect.js');
 
+import {
+  Menu, MenuItem
+} from '../../lib/index';
+
 // import {
 //   DelegateCommand
 // } from 'phosphor-command';
@@ -36,6 +40,152 @@ describe('phosphor-menus', () => {
 
   });
 
+  describe('MenuItem', () => {
+
+    describe('#checked', () => {
+
+      it('should check and uncheck a check item', () => {
+        let item = new MenuItem({ type: MenuItem.Check });
+        item.checked = true;
+        expect(item.checked).to.be(true);
+        item.checked = false;
+        expect(item.checked).to.be(false);
+      });
+
+      it('should not check a normal item', () => {
+        let item = new MenuItem();
+        item.checked = true;
+        expect(item.checked).to.be(false);
+      });
+
+      it('should uncheck the other radio items in the group', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'g', checked: true });
+        let b = new MenuItem({ type: MenuItem.Radio, group: 'g' });
+        let c = new MenuItem({ type: MenuItem.Radio, group: 'h', checked: true });
+        let menu = new Menu([a, b, c]);
+        b.checked = true;
+        expect(a.checked).to.be(false);
+        expect(b.checked).to.be(true);
+        expect(c.checked).to.be(true);
+        menu.dispose();
+      });
+
+      it('should allow a radio item to be unchecked', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'g', checked: true });
+        let menu = new Menu([a]);
+        a.checked = false;
+        expect(a.checked).to.be(false);
+        menu.dispose();
+      });
+
+      it('should scope radio groups to the containing menu', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'sort', checked: true });
+        let b = new MenuItem({ type: MenuItem.Radio, group: 'sort' });
+        let menu1 = new Menu([a]);
+        let menu2 = new Menu([b]);
+        b.checked = true;
+        expect(a.checked).to.be(true);
+        menu1.dispose();
+        menu2.dispose();
+      });
+
+      it('should stop unchecking items removed from the menu', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'g', checked: true });
+        let b = new MenuItem({ type: MenuItem.Radio, group: 'g' });
+        let menu = new Menu([a, b]);
+        menu.items = [b];
+        b.checked = true;
+        expect(a.checked).to.be(true);
+        menu.dispose();
+      });
+
+      it('should keep the last checked radio item when the items are assigned', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'view' });
+        let b = new MenuItem({ type: MenuItem.Radio, group: 'view' });
+        let menu1 = new Menu([a]);
+        let menu2 = new Menu([b]);
+        a.checked = true;
+        b.checked = true;
+        let menu = new Menu();
+        menu.items = [a, b];
+        expect(a.checked).to.be(false);
+        expect(b.checked).to.be(true);
+        menu.dispose();
+        menu1.dispose();
+        menu2.dispose();
+      });
+
+      it('should uncheck the other standalone radio items in the group', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'zoom', checked: true });
+        let b = new MenuItem({ type: MenuItem.Radio, group: 'zoom' });
+        b.checked = true;
+        expect(a.checked).to.be(false);
+        expect(b.checked).to.be(true);
+        a.checked = true;
+        expect(b.checked).to.be(false);
+      });
+
+      it('should not scope a standalone item with the items of a menu', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'mode', checked: true });
+        let b = new MenuItem({ type: MenuItem.Radio, group: 'mode' });
+        let menu = new Menu([b]);
+        b.checked = true;
+        expect(a.checked).to.be(true);
+        menu.dispose();
+      });
+
+    });
+
+    describe('#keepOpen', () => {
+
+      it('should default to `null`', () => {
+        expect(new MenuItem().keepOpen).to.be(null);
+      });
+
+      it('should be initialized from the options', () => {
+        expect(new MenuItem({ keepOpen: true }).keepOpen).to.be(true);
+        expect(new MenuItem({ keepOpen: false }).keepOpen).to.be(false);
+      });
+
+    });
+
+    describe('#group', () => {
+
+      it('should uncheck the new group when a checked item joins it', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'g', checked: true });
+        let b = new MenuItem({ type: MenuItem.Radio, group: 'h', checked: true });
+        let menu = new Menu([a, b]);
+        b.group = 'g';
+        expect(a.checked).to.be(false);
+        expect(b.checked).to.be(true);
+        menu.dispose();
+      });
+
+      it('should leave the old group when the group changes', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'g', checked: true });
+        let b = new MenuItem({ type: MenuItem.Radio, group: 'g' });
+        let menu = new Menu([a, b]);
+        a.group = 'h';
+        b.checked = true;
+        expect(a.checked).to.be(true);
+        menu.dispose();
+      });
+
+      it('should leave the group when the type is no longer radio', () => {
+        let a = new MenuItem({ type: MenuItem.Radio, group: 'g', checked: true });
+        let b = new MenuItem({ type: MenuItem.Radio, group: 'g' });
+        let menu = new Menu([a, b]);
+        a.type = MenuItem.Check;
+        a.checked = true;
+        b.checked = true;
+        expect(a.checked).to.be(true);
+        menu.dispose();
+      });
+
+    });
+
+  });
+
   // describe('MenuItem', () => {
 
   //   describe('.Normal', () => {
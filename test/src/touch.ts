@@ -0,0 +1,195 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  LongPressHandler, isTouchEvent, isTouchInput, trackPointerInput
+} from '../../lib/index';
+
+
+/**
+ * The options for a synthetic pointer event.
+ */
+interface IPointerEventOptions {
+  pointerType?: string;
+  pointerId?: number;
+  clientX?: number;
+  clientY?: number;
+}
+
+
+function triggerPointerEvent(node: Node, eventType: string, options: IPointerEventOptions = {}) {
+  // not every browser supports the PointerEvent constructor
+  let event = document.createEvent('Event') as PointerEvent;
+  event.initEvent(eventType, true, true);
+  (event as any).pointerType = options.pointerType || 'touch';
+  (event as any).pointerId = options.pointerId || 1;
+  (event as any).isPrimary = true;
+  (event as any).clientX = options.clientX || 0;
+  (event as any).clientY = options.clientY || 0;
+  (event as any).screenX = 0;
+  (event as any).screenY = 0;
+  node.dispatchEvent(event);
+}
+
+
+describe('phosphor-menus', () => {
+
+  describe('isTouchEvent()', () => {
+
+    it('should accept a touch or pen pointer', () => {
+      expect(isTouchEvent({ pointerType: 'touch' } as PointerEvent)).to.be(true);
+      expect(isTouchEvent({ pointerType: 'pen' } as PointerEvent)).to.be(true);
+    });
+
+    it('should reject a mouse pointer', () => {
+      expect(isTouchEvent({ pointerType: 'mouse' } as PointerEvent)).to.be(false);
+    });
+
+  });
+
+  describe('isTouchInput()', () => {
+
+    it('should reflect the type of the most recent pointer press', () => {
+      trackPointerInput();
+      triggerPointerEvent(document.body, 'pointerdown', { pointerType: 'touch' });
+      expect(isTouchInput()).to.be(true);
+      triggerPointerEvent(document.body, 'pointerdown', { pointerType: 'mouse' });
+      expect(isTouchInput()).to.be(false);
+    });
+
+  });
+
+  describe('LongPressHandler', () => {
+
+    let node: HTMLElement;
+    let presses: MouseEvent[];
+
+    beforeEach(() => {
+      presses = [];
+      node = document.createElement('div');
+      node.addEventListener('contextmenu', (event: MouseEvent) => { presses.push(event); });
+      document.body.appendChild(node);
+    });
+
+    afterEach(() => {
+      document.body.removeChild(node);
+    });
+
+    describe('#node', () => {
+
+      it('should be the node passed to the constructor', () => {
+        let handler = new LongPressHandler(node);
+        expect(handler.node).to.be(node);
+        handler.dispose();
+      });
+
+    });
+
+    describe('#handleEvent()', () => {
+
+      it('should dispatch a `contextmenu` event for a long press', (done) => {
+        let handler = new LongPressHandler(node, { delay: 10 });
+        triggerPointerEvent(node, 'pointerdown', { clientX: 5, clientY: 6 });
+        expect(presses.length).to.be(0);
+        setTimeout(() => {
+          expect(presses.length).to.be(1);
+          expect(presses[0].clientX).to.be(5);
+          expect(presses[0].clientY).to.be(6);
+          handler.dispose();
+          done();
+        }, 50);
+      });
+
+      it('should ignore a mouse press', (done) => {
+        let handler = new LongPressHandler(node, { delay: 10 });
+        triggerPointerEvent(node, 'pointerdown', { pointerType: 'mouse' });
+        setTimeout(() => {
+          expect(presses.length).to.be(0);
+          handler.dispose();
+          done();
+        }, 50);
+      });
+
+      it('should cancel a press which is released early', (done) => {
+        let handler = new LongPressHandler(node, { delay: 10 });
+        triggerPointerEvent(node, 'pointerdown');
+        triggerPointerEvent(node, 'pointerup');
+        setTimeout(() => {
+          expect(presses.length).to.be(0);
+          handler.dispose();
+          done();
+        }, 50);
+      });
+
+      it('should cancel a press which moves past the tolerance', (done) => {
+        let handler = new LongPressHandler(node, { delay: 10, tolerance: 5 });
+        triggerPointerEvent(node, 'pointerdown');
+        triggerPointerEvent(node, 'pointermove', { clientX: 3, clientY: 3 });
+        triggerPointerEvent(node, 'pointermove', { clientX: 6, clientY: 0 });
+        setTimeout(() => {
+          expect(presses.length).to.be(0);
+          handler.dispose();
+          done();
+        }, 50);
+      });
+
+      it('should use a native `contextmenu` event in place of its own', (done) => {
+        let handler = new LongPressHandler(node, { delay: 10 });
+        triggerPointerEvent(node, 'pointerdown');
+        let event = document.createEvent('MouseEvent');
+        event.initMouseEvent(
+          'contextmenu', true, true, window, 0, 0, 0, 0, 0,
+          false, false, false, false, 2, null
+        );
+        node.dispatchEvent(event);
+        setTimeout(() => {
+          expect(presses).to.eql([event]);
+          handler.dispose();
+          done();
+        }, 50);
+      });
+
+      it('should suppress a native `contextmenu` event after its own', (done) => {
+        let handler = new LongPressHandler(node, { delay: 10 });
+        triggerPointerEvent(node, 'pointerdown');
+        setTimeout(() => {
+          let event = document.createEvent('MouseEvent');
+          event.initMouseEvent(
+            'contextmenu', true, true, window, 0, 0, 0, 0, 0,
+            false, false, false, false, 2, null
+          );
+          node.dispatchEvent(event);
+          expect(presses.length).to.be(1);
+          expect(presses[0]).not.to.be(event);
+          handler.dispose();
+          done();
+        }, 50);
+      });
+
+    });
+
+    describe('#dispose()', () => {
+
+      it('should cancel a pending press', (done) => {
+        let handler = new LongPressHandler(node, { delay: 10 });
+        triggerPointerEvent(node, 'pointerdown');
+        handler.dispose();
+        setTimeout(() => {
+          expect(presses.length).to.be(0);
+          done();
+        }, 50);
+      });
+
+    });
+
+  });
+
+});